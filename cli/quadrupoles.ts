@@ -0,0 +1,97 @@
+// Headless runner for the orbit integrator, for scripted and batch runs.
+//
+//   npm run quadrupoles -- run scenario.json --out traj.csv
+//
+// A scenario is a JSON file with the SimulationParams schema, integrator options
+// included, or a run exported from the app. Each run's summary goes to stdout as
+// JSON, with the run's accuracy check; trajectories are only written when asked for.
+import { readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { basename, extname, join } from "node:path";
+import { parseArgs } from "node:util";
+import { runSimulation } from "../src/physics";
+import { parseScenarioJson, resultSummary, resultToCsv, resultToJson } from "../src/exporting";
+import { accuracyReport, worstErrors } from "../src/validation";
+
+const USAGE = `Usage: quadrupoles run <scenario.json>... [options]
+
+Options:
+  --out <file>       write the trajectory of a single scenario; .json or .csv by extension
+  --out-dir <dir>    write one trajectory per scenario, named after its file
+  --format <format>  csv or json, for --out-dir or an --out without a known extension (default csv)
+  --help             show this message
+
+Exits with 1 on bad usage or an unreadable scenario, and with 2 if any run
+stopped on invalid input, a numerical blow-up or an error.`;
+
+type Format = "csv" | "json";
+
+function formatFor(file: string, fallback: Format): Format {
+    const ext = extname(file).toLowerCase();
+    return ext === ".json" ? "json" : ext === ".csv" ? "csv" : fallback;
+}
+
+function fail(message: string): never {
+    console.error(`${message}\n\n${USAGE}`);
+    process.exit(1);
+}
+
+function main(argv: string[]): number {
+    const { values, positionals } = (() => {
+        try {
+            return parseArgs({
+                args: argv,
+                allowPositionals: true,
+                options: {
+                    out: { type: "string" },
+                    "out-dir": { type: "string" },
+                    format: { type: "string", default: "csv" },
+                    help: { type: "boolean", default: false }
+                }
+            });
+        } catch (error) {
+            return fail(error instanceof Error ? error.message : String(error));
+        }
+    })();
+
+    if (values.help) {
+        console.log(USAGE);
+        return 0;
+    }
+    const [command, ...files] = positionals;
+    if (command !== "run") fail(command ? `Unknown command "${command}"` : "No command given");
+    if (files.length === 0) fail("No scenario files given");
+    if (values.out && files.length > 1) fail("--out takes a single scenario; use --out-dir for several");
+    if (values.format !== "csv" && values.format !== "json") fail(`--format must be csv or json, not "${values.format}"`);
+    const format: Format = values.format;
+
+    if (values["out-dir"]) mkdirSync(values["out-dir"], { recursive: true });
+
+    let failed = false;
+    const summaries = files.map(file => {
+        let params;
+        try {
+            params = parseScenarioJson(readFileSync(file, "utf8"));
+        } catch (error) {
+            return fail(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        const result = runSimulation(params);
+        if (result.status.kind !== "completed" && result.status.kind !== "collision") failed = true;
+
+        const target = values.out
+            ?? (values["out-dir"] ? join(values["out-dir"], `${basename(file, extname(file))}.${format}`) : null);
+        if (target) {
+            const content = formatFor(target, format) === "json" ? resultToJson(params, result) : resultToCsv(params, result);
+            writeFileSync(target, content);
+        }
+        const report = accuracyReport(params, result);
+        const accuracy = { reference: report.reference, ...worstErrors(report), period: report.periodError };
+        return { scenario: file, output: target, ...resultSummary(result), accuracy };
+    });
+
+    // one summary per scenario, in the order given
+    console.log(JSON.stringify(files.length === 1 ? summaries[0] : summaries, null, 2));
+    return failed ? 2 : 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
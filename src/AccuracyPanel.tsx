@@ -0,0 +1,145 @@
+import Plot from 'react-plotly.js';
+import Badge from 'react-bootstrap/Badge';
+import Button from 'react-bootstrap/Button';
+import Table from 'react-bootstrap/Table';
+import ProgressBar from 'react-bootstrap/ProgressBar';
+import type { AccuracyReport, IntegratorMethod, SimulationParams } from './types';
+import { worstErrors } from './validation';
+import { useAnalysis } from './useAnalysis';
+
+const REFERENCE_LABELS: Record<AccuracyReport['reference'], string> = {
+  kepler: 'against the analytic Kepler orbit',
+  refined: 'estimated by refining the step',
+};
+
+// what is left after a round trip, for the integrator that made it
+const ROUND_TRIP_NOTES: Record<IntegratorMethod, string> = {
+  rk2: 'RK2 is not time-reversible, so this is its error over both legs, which on a long run can be as large as the orbit.',
+  rk4: 'RK4 is not time-reversible, so this is its truncation error over both legs.',
+  rk45: 'Adaptive RK45 is not time-reversible, so this is its error over both legs, set by the tolerances.',
+  leapfrog: 'Leapfrog is time-reversible and retraces its steps to about rounding error, amplified where the orbit is chaotic.',
+  yoshida: 'The Yoshida integrator is time-reversible and retraces its steps to about rounding error, amplified where the orbit is chaotic.',
+};
+
+const formatError = (value: number) => Number.isFinite(value) ? Math.abs(value).toExponential(1) : '—';
+
+// the run's largest relative position error, coloured by how far it can be trusted
+export function AccuracyBadge({ report }: { report?: AccuracyReport }) {
+  if (!report) return null;
+  const { position, energy } = worstErrors(report);
+  const bg = !Number.isFinite(position) ? 'secondary'
+    : position < 1e-6 ? 'success'
+      : position < 1e-3 ? 'info'
+        : position < 1e-1 ? 'warning'
+          : 'danger';
+  return (
+    <Badge
+      bg={bg}
+      title={`Largest |Δr|/r ${formatError(position)}, |ΔE/E₀| ${formatError(energy)}, `
+        + `period error ${formatError(report.periodError)}, ${REFERENCE_LABELS[report.reference]}`}
+    >
+      {report.reference === 'kepler' ? 'Kepler' : 'est.'} ±{formatError(position)}
+    </Badge>
+  );
+}
+
+interface AccuracyPanelProps {
+  simParams: SimulationParams;
+  report?: AccuracyReport;
+}
+
+export default function AccuracyPanel({ simParams, report }: AccuracyPanelProps) {
+  const { result: comparison, error: comparisonError, progress: comparing, run: compare, cancel: cancelComparison } = useAnalysis<'compare'>(simParams);
+  const { result: trip, error: tripError, progress: tripping, run: runTrip, cancel: cancelTrip } = useAnalysis<'round-trip'>(simParams);
+  if (!report) return null;
+
+  return (
+    <div style={{ marginBottom: 20 }}>
+      <Plot
+        data={[
+          { x: report.t, y: report.positionError, name: '|Δr| / r', color: 'red' },
+          { x: report.t, y: report.energyError.map(Math.abs), name: '|ΔE / E₀|', color: 'deepskyblue' },
+        ].map(trace => ({
+          x: trace.x,
+          y: trace.y,
+          type: 'scatter',
+          mode: 'lines',
+          name: trace.name,
+          line: { color: trace.color },
+        }))}
+        layout={{
+          autosize: true,
+          height: 300,
+          title: {
+            text: `Accuracy ${REFERENCE_LABELS[report.reference]} (period error ${formatError(report.periodError)})`,
+            font: { size: 12 }
+          },
+          paper_bgcolor: 'rgba(0,0,0,0)',
+          plot_bgcolor: 'rgba(0,0,0,0)',
+          font: { color: 'rgba(255,255,255,0.87)' },
+          xaxis: { title: { text: 't' }, gridcolor: 'rgba(255,255,255,0.1)' },
+          yaxis: { title: { text: 'relative error' }, gridcolor: 'rgba(255,255,255,0.1)', type: 'log', exponentformat: 'e' },
+          legend: { orientation: 'h' },
+        }}
+        style={{ width: '100%' }}
+      />
+      {comparing === null ? (
+        <Button variant="outline-secondary" size="sm" onClick={() => compare({ kind: 'compare', params: simParams })}>
+          Compare all integrators in the monopole limit
+        </Button>
+      ) : (
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <ProgressBar now={comparing * 100} label={`Comparing ${Math.round(comparing * 100)}%`} style={{ flexGrow: 1 }} />
+          <Button variant="outline-secondary" size="sm" onClick={cancelComparison}>Cancel</Button>
+        </div>
+      )}{' '}
+      {tripping === null ? (
+        <Button variant="outline-secondary" size="sm" onClick={() => runTrip({ kind: 'round-trip', params: simParams })}>
+          Round trip
+        </Button>
+      ) : (
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <ProgressBar now={tripping * 100} label={`Round trip ${Math.round(tripping * 100)}%`} style={{ flexGrow: 1 }} />
+          <Button variant="outline-secondary" size="sm" onClick={cancelTrip}>Cancel</Button>
+        </div>
+      )}
+      {tripError && <small style={{ color: 'red' }}>{tripError}</small>}
+      {trip && (
+        <div>
+          <small>
+            {trip.status.kind === 'completed'
+              ? `Integrating to t = ${simParams.finalTime} and back lands |Δr|/r₀ = ${formatError(trip.positionError)}, `
+                + `|Δv|/v₀ = ${formatError(trip.velocityError)} from the start. ${ROUND_TRIP_NOTES[simParams.integrator.method]}`
+              : `The round trip stopped early (${trip.status.kind}), so there is nothing to compare.`}
+          </small>
+        </div>
+      )}
+      {comparisonError && <small style={{ color: 'red' }}>{comparisonError}</small>}
+      {comparison && (
+        <Table size="sm" variant="dark" striped className="mt-2">
+          <thead>
+            <tr>
+              <th>Integrator</th>
+              <th>max |Δr| / r</th>
+              <th>max |ΔE / E₀|</th>
+              <th>period error</th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.map(({ method, report: row }) => {
+              const worst = worstErrors(row);
+              return (
+                <tr key={method}>
+                  <td>{method}</td>
+                  <td>{formatError(worst.position)}</td>
+                  <td>{formatError(worst.energy)}</td>
+                  <td>{formatError(row.periodError)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -1,32 +1,134 @@
 import './App.css'
 import Canvas from "./Canvas";
+import DiagnosticsPlot from "./DiagnosticsPlot";
+import ElementsPanel from "./ElementsPanel";
 import UserInterface from "./UserInterface";
-import { calculateOrbit } from './physics.ts';
-import { Container, Row, Col, Button } from 'react-bootstrap';
-import { useState, useEffect } from 'react';
-import { Vec3 } from './types';
+import RunsPanel from "./RunsPanel";
+import SeparationPlot from "./SeparationPlot";
+import EventsTable from "./EventsTable";
+import ExportPanel from "./ExportPanel";
+import PoincarePanel from "./PoincarePanel";
+import EffectivePotentialPanel from "./EffectivePotentialPanel";
+import PresetsPanel from "./PresetsPanel";
+import TruncationPanel from "./TruncationPanel";
+import SweepPanel from "./SweepPanel";
+import AccuracyPanel from "./AccuracyPanel";
+import PrecessionPanel from "./PrecessionPanel";
+import { useOrbitRuns } from './useOrbitRuns.ts';
+import { AXISYMMETRIC, DEFAULT_TIME_STEP, MULTIPOLE, NO_TESSERAL, toInertialTrajectory } from './physics.ts';
+import { equivalentZonal } from './exactModels.ts';
+import { defaultIntegratorOptions } from './integrators.ts';
+import { THESIS_ZONAL } from './harmonics.ts';
+import { THESIS_BODY_ID, codeUnits } from './units.ts';
+import type { UnitSystem } from './units.ts';
+import { Container, Row, Col, Button, ProgressBar, Alert } from 'react-bootstrap';
+import { useState, useEffect, useRef } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import type { CameraView, ConservedSeries, DuplicateKind, OrbitRun, SimulationParams, TerminationStatus } from './types';
+
+const RUN_COLORS = ['red', 'deepskyblue', 'lime', 'orange', 'violet', 'gold'];
+
+const DUPLICATE_SUFFIXES: Record<DuplicateKind, string> = {
+  copy: '',
+  'point-attractor': ' (point attractor)',
+  quadrupole: ' (quadrupole truncation)'
+};
+
+// used for a new run until its first result arrives
+const EMPTY_SERIES: ConservedSeries = { t: [], energy: [], Lx: [], Ly: [], Lz: [], L: [], jacobi: [], dissipated: [] };
+
+function describeStatus(status: TerminationStatus): { variant: string; text: string } | null {
+  switch (status.kind) {
+    case 'completed':
+      return null;
+    case 'collision':
+      return { variant: 'warning', text: `The orbit hit the attractor at t = ${status.time.toFixed(2)}.` };
+    case 'invalid-input':
+      return { variant: 'danger', text: `Invalid input: ${status.message}.` };
+    case 'blow-up':
+      return { variant: 'danger', text: `Numerical blow-up at t = ${status.time.toFixed(2)}: ${status.message}.` };
+    case 'error':
+      return { variant: 'danger', text: `The orbit calculation failed: ${status.message}` };
+  }
+}
 
 function App() {
-  // Group related simulation parameters together
-  const [simParams, setSimParams] = useState({
-    attractorSize: 1,
-    initialPosition: { x: 5, y: 0, z: 0 } as Vec3,
-    initialVelocity: { x: 0, y: 3, z: 0 } as Vec3,
-    finalTime: 100
-  });
+  // Every run has its own group of simulation parameters; the UI edits the active one
+  const [runs, setRuns] = useState<OrbitRun[]>([{
+    id: 1,
+    name: 'Run 1',
+    color: RUN_COLORS[0],
+    visible: true,
+    params: {
+      attractorSize: 1,
+      initialPosition: { x: 5, y: 0, z: 0 },
+      initialVelocity: { x: 0, y: 3, z: 0 },
+      finalTime: 100,
+      timeStep: DEFAULT_TIME_STEP,
+      integrator: defaultIntegratorOptions,
+      zonal: THESIS_ZONAL,
+      body: THESIS_BODY_ID,
+      ...AXISYMMETRIC
+    }
+  }]);
+  const [activeId, setActiveId] = useState(1);
+  const activeRun = runs.find(run => run.id === activeId) ?? runs[0];
+  const simParams = activeRun.params;
 
-  const [orbitData, energy] = calculateOrbit(
-              simParams.finalTime,
-              simParams.initialPosition,
-              simParams.initialVelocity,
-              simParams.attractorSize
-            );
+  const setSimParams: Dispatch<SetStateAction<SimulationParams>> = update => {
+    setRuns(prev => prev.map(run => run.id === activeRun.id
+      ? { ...run, params: typeof update === 'function' ? update(run.params) : update }
+      : run));
+  };
+
+  const duplicateRun = (id: number, kind: DuplicateKind) => {
+    const source = runs.find(run => run.id === id);
+    if (!source) return;
+    const newId = Math.max(...runs.map(run => run.id)) + 1;
+    // keep the attractor size so both runs stop at the same surface; a point attractor
+    // keeps the spin and frame, so both runs are drawn in the same frame
+    const params: SimulationParams = kind === 'point-attractor'
+      ? { ...source.params, ...MULTIPOLE, zonal: [], tesseral: NO_TESSERAL }
+      : kind === 'quadrupole'
+        ? { ...source.params, ...MULTIPOLE, zonal: equivalentZonal(source.params.forceModel, source.params.flattening) }
+        : source.params;
+    setRuns(prev => [...prev, {
+      id: newId,
+      name: `Run ${newId}${DUPLICATE_SUFFIXES[kind]}`,
+      color: RUN_COLORS[(newId - 1) % RUN_COLORS.length],
+      visible: true,
+      params
+    }]);
+    setActiveId(newId);
+  };
+
+  // runs off the main thread; the previous orbit stays on screen until the new one is done
+  const { results, accuracy, progress: runProgress, checking, cancel: cancelRun } = useOrbitRuns(runs);
+  const running = activeRun.id in runProgress;
+  const progress = runProgress[activeRun.id] ?? 1;
+  const cancel = () => cancelRun(activeRun.id);
+  const result = results[activeRun.id];
+  const times = result?.times ?? [];
+  const orbitData = result?.positions ?? [];
+  const velocities = result?.velocities ?? [];
+  const conserved = result?.conserved ?? EMPTY_SERIES;
+  const energy = result?.energy;
+  const statusMessage = result ? describeStatus(result.status) : null;
+  // osculating elements only make sense for the inertial-frame state
+  const inertial = simParams.frame === 'rotating'
+    ? toInertialTrajectory(times, orbitData, velocities, simParams.spinRate)
+    : { positions: orbitData, velocities };
+  const graphRef = useRef<HTMLElement | null>(null);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>('simulation');
+  const units = codeUnits(simParams.body);
+  // a preset's camera is applied once; the user can move it freely until the next preset
+  const [view, setView] = useState<{ camera?: CameraView; revision: number }>({ revision: 0 });
 
   const [calcEnergy, setCalcEnergy] = useState(energy || 0);
 
   // Update calcEnergy whenever energy changes
   useEffect(() => {
-    if (energy !== undefined) {
+    if (energy !== undefined && !Number.isNaN(energy)) {
       setCalcEnergy(energy);
     }
   }, [energy]);
@@ -42,8 +144,8 @@ function App() {
             <p style={{ maxWidth: '800px', margin: '0 auto', textAlign: 'left' }}>
             Note that: 
             <ul>
-              <li>the physics engine uses a simple fixed time-step RK2 integrator, so accuracy may vary.</li>
-              <li>the dimensions of the attractor are only for visualization purposes; the actual physics is calculated assuming a point mass/very thin ring.</li>
+              <li>the physics engine uses a simple fixed time-step RK2 integrator by default, so accuracy may vary. Switch to RK4, adaptive RK45 or a symplectic integrator to check whether an effect is physical or numerical.</li>
+              <li>the dimensions of the attractor are only for visualization purposes; the actual physics uses the selected force model (a zonal harmonic expansion about a point mass, an exact thin ring or a homogeneous spheroid), and the default J₂ = 0.5 of the zonal expansion is that of a very thin ring.</li>
             </ul>
             </p>
         </Col>
@@ -51,53 +153,110 @@ function App() {
       
       <Row>
         <Col md={5}>
+          <RunsPanel
+            runs={runs}
+            activeId={activeRun.id}
+            computing={runProgress}
+            checking={checking}
+            accuracy={accuracy}
+            onSelect={setActiveId}
+            onToggleVisible={id => setRuns(prev => prev.map(run => run.id === id ? { ...run, visible: !run.visible } : run))}
+            onDuplicate={duplicateRun}
+            onRemove={id => setRuns(prev => prev.filter(run => run.id !== id))}
+          />
           <UserInterface 
             simParams={simParams}
             setSimParams={setSimParams}
             energy={calcEnergy}
             setCalcEnergy={setCalcEnergy}
+            unitSystem={unitSystem}
+            setUnitSystem={setUnitSystem}
           />
         </Col>
         
         <Col md={7}>
+          {running && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+              <ProgressBar
+                now={progress * 100}
+                label={`${Math.round(progress * 100)}%`}
+                style={{ flexGrow: 1 }}
+              />
+              <Button variant="outline-secondary" size="sm" onClick={cancel}>
+                Cancel
+              </Button>
+            </div>
+          )}
+          {statusMessage && (
+            <Alert variant={statusMessage.variant} className="py-1 my-2">
+              {statusMessage.text}
+            </Alert>
+          )}
           <Canvas
             data={orbitData}
+            times={times}
+            velocities={velocities}
+            orbitColor={activeRun.color}
+            showOrbit={activeRun.visible}
+            overlays={runs
+              .filter(run => run.id !== activeRun.id && run.visible && results[run.id])
+              .map(run => ({ name: run.name, color: run.color, data: results[run.id].positions }))}
             initialPosition={simParams.initialPosition}
             attractorSize={simParams.attractorSize}
+            forceModel={simParams.forceModel}
+            flattening={simParams.flattening}
             initialVelocity={simParams.initialVelocity}
             energy={calcEnergy}
+            events={result?.events ?? []}
+            perturbers={result?.perturbers ?? []}
+            camera={view.camera}
+            viewRevision={view.revision}
+            onGraphReady={graph => { graphRef.current = graph; }}
           />
-          Some interesting presets:
-          <br />
-          <Button
-            variant="outline-primary"
-            onClick={() => {
-              setSimParams({
-                ...simParams,
-                attractorSize: 0.00001,
-                finalTime: 300,
-                initialPosition: { x: 4, y: 0, z: 0 },
-                initialVelocity: { x: 0, y: 2, z: 3 }
-              });
-            }}
-          >
-            Monopole orbit (bound)
-          </Button>
-          <br />
-          <Button
-            variant="outline-primary"
-            onClick={() => {
-              setSimParams({
-                ...simParams,
-                attractorSize: 1,
-                finalTime: 500,
-                initialPosition: { x: 3, y: 1, z: 0 },
-                initialVelocity: { x: 0, y: 4, z: 2 }
-              });
+          <ExportPanel
+            simParams={simParams}
+            result={result}
+            getGraph={() => graphRef.current}
+            onImport={setSimParams}
+          />
+          <EventsTable events={result?.events ?? []} units={units} unitSystem={unitSystem} />
+          <SeparationPlot runs={runs} results={results} />
+          <DiagnosticsPlot
+            series={conserved}
+            showJacobi={simParams.spinRate !== 0}
+            showDissipated={simParams.drag !== null || simParams.thrust !== null}
+          />
+          <AccuracyPanel simParams={simParams} report={accuracy[activeRun.id]} />
+          <ElementsPanel
+            times={times}
+            positions={inertial.positions}
+            velocities={inertial.velocities}
+            attractorSize={simParams.attractorSize}
+            J2={simParams.forceModel === 'zonal'
+              ? simParams.zonal[0] ?? 0
+              : equivalentZonal(simParams.forceModel, simParams.flattening)[0]}
+            units={units}
+            unitSystem={unitSystem}
+          />
+          <PrecessionPanel simParams={simParams} units={units} unitSystem={unitSystem} />
+          <TruncationPanel simParams={simParams} positions={orbitData} orbitColor={activeRun.color} />
+          <EffectivePotentialPanel
+            simParams={simParams}
+            positions={orbitData}
+            energy={calcEnergy}
+            orbitColor={activeRun.color}
+          />
+          <PoincarePanel
+            simParams={simParams}
+            onSelect={(initialPosition, initialVelocity) => setSimParams(prev => ({ ...prev, initialPosition, initialVelocity }))}
+          />
+          <SweepPanel simParams={simParams} onSelect={setSimParams} />
+          <PresetsPanel
+            onLoad={preset => {
+              setSimParams(preset.params);
+              setView(prev => ({ camera: preset.camera, revision: prev.revision + 1 }));
             }}
-          >
-            Quadrupole orbit (bound)
-          </Button>
+          />
         </Col>
       </Row>
     </Container>
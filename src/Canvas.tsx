@@ -1,13 +1,33 @@
 import Plot from 'react-plotly.js';
-import type { Vec3 } from './types';
+import Form from 'react-bootstrap/Form';
+import Button from 'react-bootstrap/Button';
+import { useEffect, useState } from 'react';
+import type { Vec3, OrbitEvent, OrbitEventKind, CameraView, ForceModel, PerturberTrack } from './types';
+import { EVENT_LABELS, EVENT_MARKERS } from './events';
+import { PERTURBER_COLORS } from './perturbers';
+import { maxAbs } from './diagnostics';
+import ProjectionPanels from './ProjectionPanels';
+import type { Overlay } from './ProjectionPanels';
 
 interface CanvasProps {
   data: Vec3[];
+  times?: number[];
+  velocities?: Vec3[];
   initialPosition: Vec3;
   initialVelocity: Vec3;
+  orbitColor?: string;
+  showOrbit?: boolean;
+  overlays?: Overlay[]; // other runs drawn alongside
+  events?: OrbitEvent[];
+  perturbers?: PerturberTrack[]; // extra point masses, drawn with the active run
   attractorSize?: number;
+  forceModel?: ForceModel; // the attractor's shape in the 2-D projections
+  flattening?: number;
   energy?: number;
   attractorThreshold?: number; // show ring vs sphere
+  onGraphReady?: (graph: HTMLElement) => void; // the plot's div, used for image export
+  camera?: CameraView;
+  viewRevision?: number; // changing it moves the camera back to `camera`
 }
 
 // Generate sphere as a matrix for surface plots
@@ -63,18 +83,92 @@ function createRingMatrix(radius: number = 1, tubeRadius: number = 0.001, axis:
   return matrix;
 }
 
+// playback speeds in integration steps per animation frame
+const PLAYBACK_SPEEDS = [1, 2, 5, 10, 25, 50];
+const FRAME_INTERVAL_MS = 40;
+const TRAIL_LENGTH = 300;
+
+const magnitude = (vec: Vec3) => Math.sqrt(vec.x * vec.x + vec.y * vec.y + vec.z * vec.z);
+
 export default function Canvas({ 
   data, 
+  times = [],
+  velocities = [],
   initialPosition, 
+  orbitColor = 'red',
+  showOrbit = true,
+  overlays = [],
+  events = [],
+  perturbers = [],
   attractorSize=1,
+  forceModel='zonal',
+  flattening=0,
   energy=0,
-  attractorThreshold=0.001
+  attractorThreshold=0.001,
+  onGraphReady,
+  camera,
+  viewRevision=0
  }: CanvasProps) {
 
+  const [playback, setPlayback] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(5);
+  const [frame, setFrame] = useState(0);
+  // the orbit point under the mouse in any of the views
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  const lastFrame = Math.max(0, data.length - 1);
+  // a new, shorter orbit may arrive while the scrubber is further along
+  const current = Math.min(frame, lastFrame);
+
+  useEffect(() => {
+    if (!playback || !playing) return;
+    const timer = setInterval(() => {
+      setFrame(f => (f >= lastFrame ? 0 : Math.min(f + speed, lastFrame)));
+    }, FRAME_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [playback, playing, speed, lastFrame]);
+
+  const trailStart = Math.max(0, current - TRAIL_LENGTH);
+  const trail = data.slice(trailStart, current + 1);
+  const body = data[current];
+
+  const playbackTraces: Plotly.Data[] = playback && body ? [
+    {
+      x: trail.map(point => point.x),
+      y: trail.map(point => point.y),
+      z: trail.map(point => point.z),
+      type: 'scatter3d',
+      mode: 'lines',
+      line: {
+        width: 6,
+        color: trail.map((_, k) => k / Math.max(1, trail.length - 1)),
+        colorscale: [[0, 'rgba(255,255,0,0)'], [1, 'rgba(255,255,0,1)']],
+      } as Partial<Plotly.ScatterLine>,
+      name: 'Trail',
+      hoverinfo: "skip",
+    },
+    {
+      x: [body.x],
+      y: [body.y],
+      z: [body.z],
+      type: 'scatter3d',
+      mode: 'markers',
+      marker: { size: 6, color: 'yellow' },
+      name: 'Body',
+      hoverinfo: "skip",
+    },
+  ] : [];
+
   // bounding box based on data and energy
-  const xValues = data.map(point => point.x);
-  const yValues = data.map(point => point.y);
-  const zValues = data.map(point => point.z);
+  const allPoints = [
+    ...(showOrbit ? data : []),
+    ...overlays.flatMap(overlay => overlay.data),
+    ...perturbers.flatMap(track => track.positions),
+  ];
+  const xValues = allPoints.map(point => point.x);
+  const yValues = allPoints.map(point => point.y);
+  const zValues = allPoints.map(point => point.z);
 
   // Add origin (0,0,0) to ensure the attractor is always within the bounding box
   xValues.push(0);
@@ -86,10 +180,7 @@ export default function Canvas({
   
   if (energy < 0) {
     // Bound orbit
-    const maxX = Math.max(...xValues.map(Math.abs));
-    const maxY = Math.max(...yValues.map(Math.abs));
-    const maxZ = Math.max(...zValues.map(Math.abs));
-    const maxDistance = Math.max(maxX, maxY, maxZ, 5); // for visibility
+    const maxDistance = Math.max(maxAbs(xValues), maxAbs(yValues), maxAbs(zValues), 5); // for visibility
     rangeSize = maxDistance * 1.25; // padding
   } else {
     // Unbound orbit
@@ -101,7 +192,15 @@ export default function Canvas({
   const zRange = [-rangeSize, rangeSize];
 
     return (
+      <div>
       <Plot
+        onInitialized={(_, graph) => onGraphReady?.(graph)}
+        onHover={event => {
+          // the orbit is the second trace, after the central body marker
+          const point = event.points.find(p => p.curveNumber === 1);
+          if (point) setHovered(point.pointNumber);
+        }}
+        onUnhover={() => setHovered(null)}
         data={[
           // Central attractor marker (always visible)
           {
@@ -125,10 +224,69 @@ export default function Canvas({
             z: data.map(point => point.z),
             type: 'scatter3d',
             mode: 'lines',
-            marker: {color: 'red'},
+            marker: {color: orbitColor},
+            line: {color: orbitColor},
+            opacity: playback ? 0.3 : 1,
+            visible: showOrbit,
             name: 'Orbit',
-            hoverinfo: "skip",
+            hoverinfo: "none", // no label, but the hover still reaches the projections
           },
+          // Events, one trace per kind
+          ...(Object.keys(EVENT_MARKERS) as OrbitEventKind[])
+            .map(kind => ({ kind, found: events.filter(event => event.kind === kind) }))
+            .filter(({ found }) => found.length > 0)
+            .map(({ kind, found }) => ({
+              x: found.map(event => event.position.x),
+              y: found.map(event => event.position.y),
+              z: found.map(event => event.position.z),
+              text: found.map(event => `${EVENT_LABELS[kind]}, t = ${event.time.toFixed(4)}`),
+              type: 'scatter3d' as const,
+              mode: 'markers' as const,
+              marker: { size: kind === 'impact' ? 8 : 4, color: EVENT_MARKERS[kind].color, symbol: EVENT_MARKERS[kind].symbol },
+              name: EVENT_LABELS[kind],
+              hoverinfo: "text" as const,
+            })),
+          // Other runs
+          ...overlays.map(overlay => ({
+            x: overlay.data.map(point => point.x),
+            y: overlay.data.map(point => point.y),
+            z: overlay.data.map(point => point.z),
+            type: 'scatter3d' as const,
+            mode: 'lines' as const,
+            line: { color: overlay.color },
+            opacity: playback ? 0.3 : 1,
+            name: overlay.name,
+            hoverinfo: "skip" as const,
+          })),
+          // Perturbers, moving with the playback
+          ...perturbers.flatMap((track, k) => {
+            const color = PERTURBER_COLORS[k % PERTURBER_COLORS.length];
+            const at = track.positions[Math.min(playback ? current : 0, track.positions.length - 1)];
+            return [
+              {
+                x: track.positions.map(point => point.x),
+                y: track.positions.map(point => point.y),
+                z: track.positions.map(point => point.z),
+                type: 'scatter3d' as const,
+                mode: 'lines' as const,
+                line: { color, dash: 'dot' as const },
+                name: track.name,
+                hoverinfo: "skip" as const,
+              },
+              ...(at ? [{
+                x: [at.x],
+                y: [at.y],
+                z: [at.z],
+                type: 'scatter3d' as const,
+                mode: 'markers' as const,
+                marker: { size: 6, color },
+                name: track.name,
+                hoverinfo: "name" as const,
+              }] : []),
+            ];
+          }),
+          // Playback: fading trail and the moving body
+          ...playbackTraces,
           // Initial position marker
           {
             x: [0, initialPosition.x],
@@ -141,6 +299,17 @@ export default function Canvas({
             name: 'Initial Position',
             hoverinfo: "skip",
           },
+          // Cursor shared with the projections
+          ...(hovered !== null && data[hovered] ? [{
+            x: [data[hovered].x],
+            y: [data[hovered].y],
+            z: [data[hovered].z],
+            type: 'scatter3d' as const,
+            mode: 'markers' as const,
+            marker: { size: 5, color: 'white' },
+            name: 'Cursor',
+            hoverinfo: "skip" as const,
+          }] : []),
           {
             // Plane at z=0
             x: [[-xRange[0], xRange[1]], [-xRange[0], xRange[1]]],
@@ -188,6 +357,7 @@ export default function Canvas({
                 autosize: true,
                 height: 500,
                 showlegend: false,
+                uirevision: `orbit-${viewRevision}`, // keep the camera while the playback updates the data
                 title: {
                     text: '3D Plot'
                 },
@@ -196,7 +366,7 @@ export default function Canvas({
                 scene: {
                   aspectratio: { x: 0.75, y: 0.75, z: 0.75 },
                   aspectmode: 'cube',
-                  camera: {
+                  camera: camera ?? {
                     eye: { x: 1, y: 1, z: 1 },
                     center: { x: 0, y: 0, z: 0 }
                   },
@@ -237,5 +407,64 @@ export default function Canvas({
             }
          }
       />
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+        <Form.Check
+          type="switch"
+          id="playback-switch"
+          label="Playback"
+          checked={playback}
+          onChange={e => {
+            setPlayback(e.target.checked);
+            setPlaying(false);
+          }}
+        />
+        {playback && (
+          <>
+            <Button variant="outline-primary" size="sm" onClick={() => setPlaying(p => !p)}>
+              {playing ? 'Pause' : 'Play'}
+            </Button>
+            <Form.Select
+              size="sm"
+              style={{ width: 'auto' }}
+              value={speed}
+              onChange={e => setSpeed(parseInt(e.target.value))}
+            >
+              {PLAYBACK_SPEEDS.map(s => (
+                <option key={s} value={s}>{s} steps/frame</option>
+              ))}
+            </Form.Select>
+            <Form.Range
+              style={{ flex: '1 1 200px' }}
+              min={0}
+              max={lastFrame}
+              step={1}
+              value={current}
+              onChange={e => setFrame(parseInt(e.target.value))}
+            />
+          </>
+        )}
+      </div>
+      {playback && body && (
+        <small>
+          t = {(times[current] ?? 0).toFixed(2)},
+          r = {magnitude(body).toFixed(3)},
+          |v| = {velocities[current] ? magnitude(velocities[current]).toFixed(3) : '—'}
+        </small>
+      )}
+      <ProjectionPanels
+        data={data}
+        times={times}
+        orbitColor={orbitColor}
+        showOrbit={showOrbit}
+        overlays={overlays}
+        events={events}
+        perturbers={perturbers}
+        attractor={{ size: attractorSize, forceModel, flattening, point: attractorSize < attractorThreshold }}
+        range={rangeSize}
+        hovered={hovered}
+        body={playback && body ? current : null}
+        onHover={setHovered}
+      />
+      </div>
     );
 }
\ No newline at end of file
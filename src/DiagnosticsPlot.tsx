@@ -0,0 +1,63 @@
+import Plot from 'react-plotly.js';
+import type { ConservedSeries } from './types';
+import { relativeDrift, maxAbs } from './diagnostics';
+
+interface DiagnosticsPlotProps {
+  series: ConservedSeries;
+  showJacobi?: boolean; // around a spinning body E and L_z drift physically but the Jacobi constant does not
+  showDissipated?: boolean; // with drag or thrust E drifts physically, by the energy they take out
+}
+
+export default function DiagnosticsPlot({ series, showJacobi = false, showDissipated = false }: DiagnosticsPlotProps) {
+  // angular momentum components are all scaled by the initial |L| so they share an axis
+  const L0 = series.L[0] ?? 0;
+  const energyDrift = relativeDrift(series.energy);
+  const LzDrift = relativeDrift(series.Lz, L0);
+  const jacobiDrift = relativeDrift(series.jacobi);
+  // the conservative energy and what drag and thrust took out add up to a constant, the Jacobi one around a spinning body
+  const E0 = Math.abs(series.energy[0] ?? 0) || 1;
+  const balance = relativeDrift(series.jacobi.map((C, i) => C + series.dissipated[i]));
+
+  const traces: { name: string; y: number[]; color: string; dash?: 'dot' }[] = [
+    { name: 'ΔE / |E₀|', y: energyDrift, color: 'red' },
+    { name: 'ΔL_z / |L₀|', y: LzDrift, color: 'lime' },
+    { name: 'Δ|L| / |L₀|', y: relativeDrift(series.L, L0), color: 'orange' },
+    { name: 'ΔL_x / |L₀|', y: relativeDrift(series.Lx, L0), color: 'deepskyblue', dash: 'dot' },
+    { name: 'ΔL_y / |L₀|', y: relativeDrift(series.Ly, L0), color: 'violet', dash: 'dot' },
+    ...(showJacobi ? [{ name: 'ΔC_J / |C_J₀|', y: jacobiDrift, color: 'white' }] : []),
+    ...(showDissipated ? [
+      { name: 'dissipated / |E₀|', y: series.dissipated.map(q => q / E0), color: 'gold' },
+      { name: showJacobi ? 'Δ(C_J + dissipated) / |C_J₀|' : 'Δ(E + dissipated) / |E₀|', y: balance, color: 'white', dash: 'dot' as const },
+    ] : []),
+  ];
+
+  return (
+    <Plot
+      data={traces.map(trace => ({
+        x: series.t,
+        y: trace.y,
+        type: 'scatter',
+        mode: 'lines',
+        name: trace.name,
+        line: { color: trace.color, dash: trace.dash },
+      }))}
+      layout={{
+        autosize: true,
+        height: 350,
+        title: {
+          text: `Relative drift (max |ΔE/E₀| = ${maxAbs(energyDrift).toExponential(2)}, max |ΔL_z/L₀| = ${maxAbs(LzDrift).toExponential(2)}`
+            + (showJacobi ? `, max |ΔC_J/C_J₀| = ${maxAbs(jacobiDrift).toExponential(2)}` : '')
+            + (showDissipated ? `, energy balance to ${maxAbs(balance).toExponential(2)})` : ')'),
+          font: { size: 12 }
+        },
+        paper_bgcolor: 'rgba(0,0,0,0)',
+        plot_bgcolor: 'rgba(0,0,0,0)',
+        font: { color: 'rgba(255,255,255,0.87)' },
+        xaxis: { title: { text: 't' }, gridcolor: 'rgba(255,255,255,0.1)' },
+        yaxis: { title: { text: 'relative drift' }, gridcolor: 'rgba(255,255,255,0.1)', exponentformat: 'e' },
+        legend: { orientation: 'h' },
+      }}
+      style={{ width: '100%' }}
+    />
+  );
+}
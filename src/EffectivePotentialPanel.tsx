@@ -0,0 +1,99 @@
+import Plot from 'react-plotly.js';
+import type { Vec3, SimulationParams } from './types';
+import { effectivePotential } from './physics';
+import { maxAbs } from './diagnostics';
+
+interface EffectivePotentialPanelProps {
+  simParams: SimulationParams;
+  positions: Vec3[];
+  energy: number;
+  orbitColor?: string;
+}
+
+const GRID_SIZE = 120;
+
+export default function EffectivePotentialPanel({ simParams, positions, energy, orbitColor = 'red' }: EffectivePotentialPanelProps) {
+  const { initialPosition: p, initialVelocity: v, attractorSize, zonal } = simParams;
+  const Lz = p.x * v.y - p.y * v.x;
+
+  const rho = positions.map(point => Math.sqrt(point.x * point.x + point.y * point.y));
+  const z = positions.map(point => point.z);
+
+  // same framing rule as the 3-D view: fit bound orbits, fixed box for unbound ones
+  const extent = energy < 0
+    ? Math.max(maxAbs(rho), maxAbs(z), 5) * 1.25
+    : 20;
+
+  const rhoGrid = Array.from({ length: GRID_SIZE }, (_, k) => extent * (k + 1) / GRID_SIZE);
+  const zGrid = Array.from({ length: GRID_SIZE }, (_, k) => extent * (2 * k / (GRID_SIZE - 1) - 1));
+
+  // Φ_eff diverges at the axis and the origin, so clip it to a band around E
+  // and leave the inside of the attractor empty
+  const scale = Math.max(Math.abs(energy), 1);
+  const low = energy - 2 * scale;
+  const high = energy + scale;
+  const values = zGrid.map(zk => rhoGrid.map(rk => {
+    if (Math.sqrt(rk * rk + zk * zk) < attractorSize) return null;
+    const phi = effectivePotential(rk, zk, Lz, attractorSize, zonal, simParams);
+    return Number.isFinite(phi) ? Math.min(high, Math.max(low, phi)) : high;
+  }));
+
+  const axisStyle = { gridcolor: 'rgba(255,255,255,0.1)', zeroline: false };
+
+  return (
+    <Plot
+      data={[
+        {
+          x: rhoGrid,
+          y: zGrid,
+          z: values,
+          type: 'contour',
+          colorscale: 'Viridis',
+          zmin: low,
+          zmax: high,
+          ncontours: 30,
+          contours: { coloring: 'heatmap', showlines: false },
+          colorbar: { title: { text: 'Φ_eff' } },
+          name: 'Φ_eff',
+          hoverinfo: 'skip',
+        },
+        {
+          // zero-velocity curve Φ_eff = E bounds the region the orbit can reach
+          x: rhoGrid,
+          y: zGrid,
+          z: values,
+          type: 'contour',
+          autocontour: false,
+          contours: { start: energy, end: energy, size: 1, coloring: 'none' },
+          line: { color: 'white', width: 2 },
+          showscale: false,
+          name: 'Zero-velocity curve',
+          hoverinfo: 'skip',
+        },
+        {
+          x: rho,
+          y: z,
+          type: 'scatter',
+          mode: 'lines',
+          line: { color: orbitColor, width: 1 },
+          name: 'Orbit',
+        },
+      ]}
+      layout={{
+        autosize: true,
+        height: 450,
+        title: {
+          text: `Effective potential for L_z = ${Lz.toFixed(3)}, zero-velocity curve at E = ${energy.toFixed(3)}`,
+          font: { size: 12 }
+        },
+        paper_bgcolor: 'rgba(0,0,0,0)',
+        plot_bgcolor: 'rgba(0,0,0,0)',
+        font: { color: 'rgba(255,255,255,0.87)' },
+        xaxis: { ...axisStyle, title: { text: 'ρ' }, range: [0, extent] },
+        yaxis: { ...axisStyle, title: { text: 'z' }, range: [-extent, extent], scaleanchor: 'x' },
+        showlegend: false,
+      }}
+      style={{ width: '100%' }}
+    />
+  );
+}
@@ -0,0 +1,130 @@
+import Plot from 'react-plotly.js';
+import Table from 'react-bootstrap/Table';
+import type { Vec3 } from './types';
+import { elementSeries, fitSecularRate, j2PrecessionRates, unwrapAngles } from './elements';
+import { GM } from './physics';
+import { formatQuantity, toUnits, unitLabel } from './units';
+import type { CodeUnits, UnitSystem } from './units';
+
+interface ElementsPanelProps {
+  times: number[];
+  positions: Vec3[];
+  velocities: Vec3[];
+  attractorSize: number;
+  J2: number;
+  units: CodeUnits;
+  unitSystem: UnitSystem;
+}
+
+const DEG = 180 / Math.PI;
+
+const mean = (values: number[]) => {
+  const finite = values.filter(Number.isFinite);
+  return finite.length > 0 ? finite.reduce((acc, q) => acc + q, 0) / finite.length : NaN;
+};
+
+export default function ElementsPanel({ times, positions, velocities, attractorSize, J2, units, unitSystem }: ElementsPanelProps) {
+  // rates are per simulation time unit until converted
+  const formatRate = (rate: number) => Number.isFinite(rate)
+    ? `${(rate * DEG / toUnits(1, 'time', units, unitSystem)).toExponential(3)} °/${unitLabel('time', unitSystem) || 't'}`
+    : '—';
+  const formatLength = (length: number) => formatQuantity(length, 'length', units, unitSystem, 3);
+
+  const elements = elementSeries(positions, velocities, GM);
+  const t = times.slice(0, elements.length);
+
+  // Ω is meaningless for equatorial orbits and ω for circular ones
+  const Omega = elements.map(el => el.equatorial ? NaN : el.Omega);
+  const omega = elements.map(el => el.circular ? NaN : el.omega);
+
+  const meanA = mean(elements.map(el => el.a));
+  const meanE = mean(elements.map(el => el.e));
+  const meanI = mean(elements.map(el => el.i));
+  const bound = elements.length > 0 && elements.every(el => el.a > 0 && el.e < 1);
+  // an equatorial orbit has no node, so its ω is measured from x and the fit is dϖ/dt = dω/dt + dΩ/dt
+  const equatorial = elements.length > 0 && elements.every(el => el.equatorial);
+
+  const measuredNodal = bound ? fitSecularRate(t, Omega) : NaN;
+  const measuredApsidal = bound ? fitSecularRate(t, omega) : NaN;
+  const rates = j2PrecessionRates(meanA, meanE, meanI, GM, attractorSize, J2);
+  const theory = equatorial
+    ? { nodal: NaN, apsidal: rates.apsidal + rates.nodal }
+    : rates;
+
+  const panels: { name: string; y: number[] }[] = [
+    { name: 'a', y: elements.map(el => el.a) },
+    { name: 'e', y: elements.map(el => el.e) },
+    { name: 'i (°)', y: elements.map(el => el.i * DEG) },
+    { name: 'Ω (°, unwrapped)', y: unwrapAngles(Omega).map(q => q * DEG) },
+    { name: 'ω (°, unwrapped)', y: unwrapAngles(omega).map(q => q * DEG) },
+    { name: 'M (°)', y: elements.map(el => el.M * DEG) },
+  ];
+
+  const axisStyle = { gridcolor: 'rgba(255,255,255,0.1)', zeroline: false };
+
+  return (
+    <div>
+      <Plot
+        data={panels.map((panel, k) => ({
+          x: t,
+          y: panel.y,
+          type: 'scatter',
+          mode: 'lines',
+          name: panel.name,
+          xaxis: k === 0 ? 'x' : `x${k + 1}`,
+          yaxis: k === 0 ? 'y' : `y${k + 1}`,
+        }))}
+        layout={{
+          autosize: true,
+          height: 500,
+          showlegend: false,
+          title: { text: 'Osculating elements', font: { size: 12 } },
+          paper_bgcolor: 'rgba(0,0,0,0)',
+          plot_bgcolor: 'rgba(0,0,0,0)',
+          font: { color: 'rgba(255,255,255,0.87)' },
+          grid: { rows: 3, columns: 2, pattern: 'independent' },
+          annotations: panels.map((panel, k) => ({
+            text: panel.name,
+            xref: `x${k === 0 ? '' : k + 1} domain` as Plotly.XAxisName,
+            yref: `y${k === 0 ? '' : k + 1} domain` as Plotly.YAxisName,
+            x: 0.02,
+            y: 1,
+            showarrow: false,
+            font: { size: 11 },
+          })),
+          ...Object.fromEntries(panels.flatMap((_, k) => [
+            [k === 0 ? 'xaxis' : `xaxis${k + 1}`, axisStyle],
+            [k === 0 ? 'yaxis' : `yaxis${k + 1}`, axisStyle],
+          ])),
+        }}
+        style={{ width: '100%' }}
+      />
+      <Table size="sm" variant="dark" bordered>
+        <thead>
+          <tr>
+            <th>Secular rate</th>
+            <th>Measured (fit)</th>
+            <th>First-order J₂ theory</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td>Nodal, dΩ/dt</td>
+            <td>{formatRate(measuredNodal)}</td>
+            <td>{formatRate(theory.nodal)}</td>
+          </tr>
+          <tr>
+            <td>{equatorial ? 'Apsidal, dϖ/dt = dω/dt + dΩ/dt' : 'Apsidal, dω/dt'}</td>
+            <td>{formatRate(measuredApsidal)}</td>
+            <td>{formatRate(theory.apsidal)}</td>
+          </tr>
+        </tbody>
+      </Table>
+      <small>
+        Theory uses the mean elements a = {formatLength(meanA)}, e = {meanE.toFixed(3)}, i = {(meanI * DEG).toFixed(2)}°
+        with J₂ = {J2} and R = {formatLength(attractorSize)}.
+        {!bound && ' The orbit is not bound, so no rates are fitted.'}
+      </small>
+    </div>
+  );
+}
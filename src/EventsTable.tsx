@@ -0,0 +1,85 @@
+import Table from 'react-bootstrap/Table';
+import type { OrbitEvent, OrbitEventKind } from './types';
+import { EVENT_LABELS } from './events';
+import { formatQuantity, formatValue, unitLabel } from './units';
+import type { CodeUnits, Quantity, UnitSystem } from './units';
+
+interface EventsTableProps {
+  events: OrbitEvent[];
+  units: CodeUnits;
+  unitSystem: UnitSystem;
+}
+
+const MAX_ROWS = 500;
+
+const magnitude = (x: number, y: number, z: number) => Math.sqrt(x * x + y * y + z * z);
+
+// mean time between successive events of one kind
+function meanInterval(events: OrbitEvent[], kind: OrbitEventKind): number {
+  const times = events.filter(event => event.kind === kind).map(event => event.time);
+  return times.length < 2 ? NaN : (times[times.length - 1] - times[0]) / (times.length - 1);
+}
+
+// mean change of the node longitude between successive ascending nodes, in degrees
+function nodeShiftPerOrbit(events: OrbitEvent[]): number {
+  const longitudes = events
+    .filter(event => event.kind === 'ascending-node')
+    .map(event => Math.atan2(event.position.y, event.position.x));
+  if (longitudes.length < 2) return NaN;
+
+  let total = 0;
+  for (let k = 1; k < longitudes.length; k++) {
+    let shift = longitudes[k] - longitudes[k - 1];
+    if (shift > Math.PI) shift -= 2 * Math.PI;
+    if (shift < -Math.PI) shift += 2 * Math.PI;
+    total += shift;
+  }
+  return total / (longitudes.length - 1) * 180 / Math.PI;
+}
+
+const format = (value: number, digits: number = 4) => Number.isFinite(value) ? value.toFixed(digits) : '—';
+
+export default function EventsTable({ events, units, unitSystem }: EventsTableProps) {
+  if (events.length === 0) return null;
+
+  const quantity = (value: number, kind: Quantity) => formatQuantity(value, kind, units, unitSystem);
+  // the table cells leave the unit to the header
+  const cell = (value: number, kind: Quantity, digits?: number) => formatValue(value, kind, units, unitSystem, digits);
+  const header = (name: string, kind: Quantity) => unitLabel(kind, unitSystem) ? `${name} (${unitLabel(kind, unitSystem)})` : name;
+
+  return (
+    <div>
+      <h5>Events</h5>
+      <small>
+        Anomalistic period (periapsis to periapsis): {quantity(meanInterval(events, 'periapsis'), 'time')}.
+        Nodal period (ascending node to ascending node): {quantity(meanInterval(events, 'ascending-node'), 'time')}.
+        Node shift per orbit: {format(nodeShiftPerOrbit(events))}°.
+      </small>
+      <div style={{ maxHeight: 250, overflowY: 'auto' }}>
+        <Table size="sm" variant="dark" bordered>
+          <thead>
+            <tr>
+              <th>Event</th>
+              <th>{header('t', 'time')}</th>
+              <th>{header('r', 'length')}</th>
+              <th>{header('z', 'length')}</th>
+              <th>{header('|v|', 'velocity')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {events.slice(0, MAX_ROWS).map((event, k) => (
+              <tr key={k}>
+                <td>{EVENT_LABELS[event.kind]}</td>
+                <td>{cell(event.time, 'time', 6)}</td>
+                <td>{cell(magnitude(event.position.x, event.position.y, event.position.z), 'length')}</td>
+                <td>{cell(event.position.z, 'length')}</td>
+                <td>{cell(magnitude(event.velocity.x, event.velocity.y, event.velocity.z), 'velocity')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      </div>
+      {events.length > MAX_ROWS && <small>Showing the first {MAX_ROWS} of {events.length} events.</small>}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import Plotly from 'plotly.js/dist/plotly';
+import Button from 'react-bootstrap/Button';
+import Form from 'react-bootstrap/Form';
+import { useState } from 'react';
+import type { OrbitResult, SimulationParams } from './types';
+import { download, parseRunJson, resultToCsv, resultToJson, snapshotHtml } from './exporting';
+
+interface ExportPanelProps {
+  simParams: SimulationParams;
+  result?: OrbitResult;
+  getGraph: () => HTMLElement | null;
+  onImport: (params: SimulationParams) => void;
+}
+
+export default function ExportPanel({ simParams, result, getGraph, onImport }: ExportPanelProps) {
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const exportImage = (format: 'png' | 'svg') => {
+    const graph = getGraph();
+    if (graph) Plotly.downloadImage(graph, { format, filename: 'orbit', width: 1000, height: 800 });
+  };
+
+  const exportHtml = async () => {
+    const graph = getGraph();
+    if (!graph || !result) return;
+    const image = await Plotly.toImage(graph, { format: 'png', width: 1000, height: 800 });
+    download('orbit.html', snapshotHtml(simParams, result, image), 'text/html');
+  };
+
+  const importJson = async (file: File) => {
+    try {
+      onImport(parseRunJson(await file.text()));
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div style={{ marginBottom: 20 }}>
+      <h5>Export</h5>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+        <Button variant="outline-secondary" size="sm" disabled={!result}
+          onClick={() => result && download('orbit.csv', resultToCsv(simParams, result), 'text/csv')}>
+          CSV
+        </Button>
+        <Button variant="outline-secondary" size="sm" disabled={!result}
+          onClick={() => result && download('orbit.json', resultToJson(simParams, result), 'application/json')}>
+          JSON
+        </Button>
+        <Button variant="outline-secondary" size="sm" onClick={() => exportImage('png')}>PNG</Button>
+        <Button variant="outline-secondary" size="sm" onClick={() => exportImage('svg')}>SVG</Button>
+        <Button variant="outline-secondary" size="sm" disabled={!result} onClick={exportHtml}>HTML snapshot</Button>
+      </div>
+      <Form.Label className="mt-2">Restore a scenario from a JSON export</Form.Label>
+      <Form.Control
+        type="file"
+        size="sm"
+        accept=".json,application/json"
+        onChange={e => {
+          const file = (e.target as HTMLInputElement).files?.[0];
+          if (file) importJson(file);
+        }}
+      />
+      {importError && <small style={{ color: 'red' }}>{importError}</small>}
+    </div>
+  );
+}
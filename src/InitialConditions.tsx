@@ -0,0 +1,201 @@
+import Form from 'react-bootstrap/Form';
+import Button from 'react-bootstrap/Button';
+import ButtonGroup from 'react-bootstrap/ButtonGroup';
+import { useState } from 'react';
+import type { Vec3, SimulationParams } from './types';
+import { GM, circularVelocity, escapeVelocity } from './physics';
+import { osculatingElements, elementsToState } from './elements';
+import { codeUnits, findBody } from './units';
+
+interface InitialConditionsProps {
+    simParams: SimulationParams;
+    setState: (position: Vec3, velocity: Vec3) => void;
+}
+
+type ElementKey = 'a' | 'e' | 'i' | 'Omega' | 'omega' | 'nu';
+
+const elementFields: { key: ElementKey; label: string }[] = [
+    { key: 'a', label: 'a' },
+    { key: 'e', label: 'e' },
+    { key: 'i', label: 'i (°)' },
+    { key: 'Omega', label: 'Ω (°)' },
+    { key: 'omega', label: 'ω (°)' },
+    { key: 'nu', label: 'ν (°)' },
+];
+
+const DEG = 180 / Math.PI;
+const magnitude = (vec: Vec3) => Math.sqrt(vec.x * vec.x + vec.y * vec.y + vec.z * vec.z);
+
+interface NumberFieldProps {
+    label: string;
+    value: number;
+    // returns an error message, or null if the value can be used
+    validate?: (value: number) => string | null;
+    onCommit: (value: number) => void;
+}
+
+// A numeric input that keeps what is typed until it parses and validates,
+// so intermediate text like "-" or "1e" does not reset the field.
+export function NumberField({ label, value, validate, onCommit }: NumberFieldProps) {
+    const [draft, setDraft] = useState<string | null>(null);
+    const text = draft ?? String(value);
+    const parsed = Number(text);
+    const error = text.trim() === '' || !Number.isFinite(parsed)
+        ? 'Enter a finite number'
+        : validate?.(parsed) ?? null;
+
+    return (
+        <Form.Group style={{ display: 'flex', alignItems: 'flex-start', gap: 8, marginBottom: 4 }}>
+            <Form.Label style={{ minWidth: 80, marginTop: 4 }}>{label}</Form.Label>
+            <div style={{ flexGrow: 1 }}>
+                <Form.Control
+                    type="text"
+                    inputMode="decimal"
+                    size="sm"
+                    value={text}
+                    isInvalid={error !== null}
+                    onChange={e => {
+                        const next = e.target.value;
+                        setDraft(next);
+                        const val = Number(next);
+                        if (next.trim() !== '' && Number.isFinite(val) && !validate?.(val)) onCommit(val);
+                    }}
+                    onBlur={() => setDraft(null)}
+                />
+                <Form.Control.Feedback type="invalid">{error}</Form.Control.Feedback>
+            </div>
+        </Form.Group>
+    );
+}
+
+export default function InitialConditions({ simParams, setState }: InitialConditionsProps) {
+    const [mode, setMode] = useState<'cartesian' | 'elements'>('cartesian');
+    const [elements, setElements] = useState<Record<ElementKey, number> | null>(null);
+    const [elementsError, setElementsError] = useState<string | null>(null);
+    const [helperError, setHelperError] = useState<string | null>(null);
+
+    const { initialPosition: pos, initialVelocity: vel, attractorSize, zonal } = simParams;
+
+    // states around a real body are entered in km and km/s
+    const body = findBody(simParams.body);
+    const units = codeUnits(simParams.body);
+    const lengthScale = body ? units.length / 1000 : 1;
+    const speedScale = body ? units.length / units.time / 1000 : 1;
+    const lengthUnit = body ? ' (km)' : '';
+    const speedUnit = body ? ' (km/s)' : '';
+
+    // elements of the current state about the point mass, until the user edits them
+    const currentElements = (): Record<ElementKey, number> => {
+        const el = osculatingElements(pos, vel, GM);
+        return { a: el.a * lengthScale, e: el.e, i: el.i * DEG, Omega: el.Omega * DEG, omega: el.omega * DEG, nu: el.nu * DEG };
+    };
+    const shownElements = elements ?? currentElements();
+
+    const outsideAttractor = (position: Vec3) => magnitude(position) >= attractorSize
+        ? null
+        : `Position is inside the attractor (r = ${(magnitude(position) * lengthScale).toFixed(3)} < ${attractorSize * lengthScale})`;
+
+    const updateComponent = (key: 'position' | 'velocity', component: keyof Vec3, value: number) => {
+        if (key === 'position') setState({ ...pos, [component]: value }, vel);
+        else setState(pos, { ...vel, [component]: value });
+    };
+
+    const applyElements = () => {
+        try {
+            const el = shownElements;
+            const state = elementsToState(el.a / lengthScale, el.e, el.i / DEG, el.Omega / DEG, el.omega / DEG, el.nu / DEG, GM);
+            const problem = outsideAttractor(state.position);
+            if (problem) throw new Error(problem);
+            setState(state.position, state.velocity);
+            setElementsError(null);
+        } catch (error) {
+            setElementsError(error instanceof Error ? error.message : String(error));
+        }
+    };
+
+    const applyHelper = (helper: typeof circularVelocity, name: string) => {
+        const velocity = helper(pos, vel, attractorSize, zonal, simParams);
+        if (velocity) {
+            setState(pos, velocity);
+            setElements(null);
+            setHelperError(null);
+        } else {
+            setHelperError(`There is no ${name} velocity at this position`);
+        }
+    };
+
+    return (
+        <div style={{ marginBottom: 10 }}>
+            <ButtonGroup size="sm" style={{ marginBottom: 8 }}>
+                <Button variant={mode === 'cartesian' ? 'primary' : 'outline-primary'} onClick={() => setMode('cartesian')}>
+                    Position and velocity
+                </Button>
+                <Button
+                    variant={mode === 'elements' ? 'primary' : 'outline-primary'}
+                    onClick={() => {
+                        setMode('elements');
+                        setElements(null);
+                        setElementsError(null);
+                    }}
+                >
+                    Orbital elements
+                </Button>
+            </ButtonGroup>
+
+            {mode === 'cartesian' ? (
+                <>
+                    {(['x', 'y', 'z'] as const).map(c => (
+                        <NumberField
+                            key={`p${c}`}
+                            label={c + lengthUnit}
+                            value={pos[c] * lengthScale}
+                            validate={val => outsideAttractor({ ...pos, [c]: val / lengthScale })}
+                            onCommit={val => updateComponent('position', c, val / lengthScale)}
+                        />
+                    ))}
+                    {(['x', 'y', 'z'] as const).map(c => (
+                        <NumberField
+                            key={`v${c}`}
+                            label={`v${c}${speedUnit}`}
+                            value={vel[c] * speedScale}
+                            onCommit={val => updateComponent('velocity', c, val / speedScale)}
+                        />
+                    ))}
+                </>
+            ) : (
+                <>
+                    <small>
+                        Keplerian elements about the central point mass; the zonal terms are left out of the
+                        conversion, so the orbit will precess away from them.
+                    </small>
+                    {elementFields.map(field => (
+                        <NumberField
+                            key={field.key}
+                            label={field.key === 'a' ? field.label + lengthUnit : field.label}
+                            value={shownElements[field.key]}
+                            onCommit={val => setElements({ ...shownElements, [field.key]: val })}
+                        />
+                    ))}
+                    <Button variant="outline-primary" size="sm" onClick={applyElements}>
+                        Set initial conditions from elements
+                    </Button>
+                    {elementsError && <div><small style={{ color: 'red' }}>{elementsError}</small></div>}
+                </>
+            )}
+
+            <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+                <Button variant="outline-secondary" size="sm" onClick={() => applyHelper(circularVelocity, 'circular')}>
+                    Circular velocity here
+                </Button>
+                <Button variant="outline-secondary" size="sm" onClick={() => applyHelper(escapeVelocity, 'escape')}>
+                    Escape velocity here
+                </Button>
+            </div>
+            <small>
+                Both use the full field of the attractor at the current position and keep the direction of the current
+                velocity perpendicular to it.
+            </small>
+            {helperError && <div><small style={{ color: 'red' }}>{helperError}</small></div>}
+        </div>
+    );
+}
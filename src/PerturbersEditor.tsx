@@ -0,0 +1,111 @@
+import Form from 'react-bootstrap/Form';
+import Button from 'react-bootstrap/Button';
+import type { Vec3, Perturber, PerturberMotion } from './types';
+import { GM } from './physics';
+import { NumberField } from './InitialConditions';
+
+interface PerturbersEditorProps {
+    perturbers: Perturber[];
+    onChange: (perturbers: Perturber[]) => void;
+}
+
+const motionLabels: Record<PerturberMotion, string> = {
+    kepler: 'Keplerian orbit about the attractor',
+    integrated: 'Integrated in the full field'
+};
+
+const magnitude = (vec: Vec3) => Math.sqrt(vec.x * vec.x + vec.y * vec.y + vec.z * vec.z);
+
+// Velocity of a circular two-body orbit of the perturber about the attractor,
+// prograde about z; a perturber over a pole is sent along y.
+function circularPerturberVelocity(position: Vec3, mass: number): Vec3 {
+    const r = magnitude(position);
+    const speed = Math.sqrt(GM * (1 + mass) / r);
+    const rho = Math.sqrt(position.x * position.x + position.y * position.y);
+    return rho > 1e-12 * r
+        ? { x: -speed * position.y / rho, y: speed * position.x / rho, z: 0 }
+        : { x: 0, y: speed, z: 0 };
+}
+
+const newPerturber = (index: number): Perturber => {
+    const position = { x: 10, y: 0, z: 0 };
+    return { name: `Perturber ${index + 1}`, mass: 0.01, position, velocity: circularPerturberVelocity(position, 0.01), motion: 'kepler' };
+};
+
+export default function PerturbersEditor({ perturbers, onChange }: PerturbersEditorProps) {
+    const update = (index: number, changes: Partial<Perturber>) =>
+        onChange(perturbers.map((perturber, k) => k === index ? { ...perturber, ...changes } : perturber));
+
+    return (
+        <div style={{ marginBottom: 10 }}>
+            <Form.Label>Perturbers (extra point masses, in simulation units)</Form.Label>
+            {perturbers.map((perturber, index) => (
+                <div key={index} style={{ borderLeft: '2px solid rgba(255,255,255,0.2)', paddingLeft: 8, marginBottom: 8 }}>
+                    <Form.Control
+                        size="sm"
+                        value={perturber.name}
+                        style={{ marginBottom: 4 }}
+                        onChange={e => update(index, { name: e.target.value })}
+                    />
+                    <NumberField
+                        label="mass (M)"
+                        value={perturber.mass}
+                        validate={val => val >= 0 ? null : 'The mass must not be negative'}
+                        onCommit={mass => update(index, { mass })}
+                    />
+                    {(['x', 'y', 'z'] as const).map(c => (
+                        <NumberField
+                            key={`p${c}`}
+                            label={c}
+                            value={perturber.position[c]}
+                            validate={val => magnitude({ ...perturber.position, [c]: val }) > 0 ? null : 'The perturber cannot sit at the attractor'}
+                            onCommit={val => update(index, { position: { ...perturber.position, [c]: val } })}
+                        />
+                    ))}
+                    {(['x', 'y', 'z'] as const).map(c => (
+                        <NumberField
+                            key={`v${c}`}
+                            label={`v${c}`}
+                            value={perturber.velocity[c]}
+                            onCommit={val => update(index, { velocity: { ...perturber.velocity, [c]: val } })}
+                        />
+                    ))}
+                    <Form.Select
+                        size="sm"
+                        value={perturber.motion}
+                        onChange={e => update(index, { motion: e.target.value as PerturberMotion })}
+                    >
+                        {(Object.keys(motionLabels) as PerturberMotion[]).map(motion => (
+                            <option key={motion} value={motion}>{motionLabels[motion]}</option>
+                        ))}
+                    </Form.Select>
+                    <div style={{ display: 'flex', gap: 8, marginTop: 4 }}>
+                        <Button
+                            variant="outline-secondary"
+                            size="sm"
+                            onClick={() => update(index, { velocity: circularPerturberVelocity(perturber.position, perturber.mass) })}
+                        >
+                            Circular orbit
+                        </Button>
+                        <Button
+                            variant="outline-danger"
+                            size="sm"
+                            onClick={() => onChange(perturbers.filter((_, k) => k !== index))}
+                        >
+                            Remove
+                        </Button>
+                    </div>
+                </div>
+            ))}
+            <Button variant="outline-secondary" size="sm" onClick={() => onChange([...perturbers, newPerturber(perturbers.length)])}>
+                Add perturber
+            </Button>
+            <div>
+                <small>
+                    Masses are in units of the attractor's. A Keplerian perturber ignores the zonal terms and the other
+                    perturbers; an integrated one feels both. The orbiting body does not collide with them.
+                </small>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,163 @@
+import Plot from 'react-plotly.js';
+import Form from 'react-bootstrap/Form';
+import Button from 'react-bootstrap/Button';
+import ProgressBar from 'react-bootstrap/ProgressBar';
+import { useEffect, useRef, useState } from 'react';
+import type { Vec3, SimulationParams, SectionSettings, SectionOrbit, SectionDirection, SectionWorkerRequest, SectionWorkerResponse } from './types';
+import { energyAndLz, nonConservingTerms, sectionState } from './poincare';
+
+interface PoincarePanelProps {
+  simParams: SimulationParams;
+  onSelect: (position: Vec3, velocity: Vec3) => void; // a clicked section point as the new initial condition
+}
+
+const createWorker = () => new Worker(new URL('./section.worker.ts', import.meta.url), { type: 'module' });
+
+const settingsFrom = (params: SimulationParams, previous?: SectionSettings): SectionSettings => ({
+  ...energyAndLz(params, params.initialPosition, params.initialVelocity),
+  orbits: previous?.orbits ?? 12,
+  finalTime: previous?.finalTime ?? 1000,
+  direction: previous?.direction ?? 'ascending',
+});
+
+export default function PoincarePanel({ simParams, onSelect }: PoincarePanelProps) {
+  const [settings, setSettings] = useState(() => settingsFrom(simParams));
+  const [orbits, setOrbits] = useState<SectionOrbit[]>([]);
+  // what the plotted section was computed with, so clicks use the same force model, E and L_z
+  const [computedWith, setComputedWith] = useState<{ params: SimulationParams; settings: SectionSettings } | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const omitted = nonConservingTerms(simParams);
+
+  const workerRef = useRef<Worker | null>(null);
+  const runIdRef = useRef(0);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const compute = () => {
+    stop();
+    const id = ++runIdRef.current;
+    const worker = createWorker();
+    workerRef.current = worker;
+    worker.onmessage = (event: MessageEvent<SectionWorkerResponse>) => {
+      const message = event.data;
+      if (message.id !== runIdRef.current) return;
+      if (message.type === 'progress') {
+        setProgress(message.fraction);
+        return;
+      }
+      stop();
+      if (message.type === 'result') {
+        setOrbits(message.orbits);
+        setComputedWith({ params: simParams, settings });
+        setError(null);
+      } else {
+        setError(message.message);
+      }
+    };
+    const request: SectionWorkerRequest = { type: 'section', id, params: simParams, settings };
+    setProgress(0);
+    worker.postMessage(request);
+  };
+
+  const updateSetting = <K extends keyof SectionSettings>(key: K, value: SectionSettings[K]) =>
+    setSettings(prev => ({ ...prev, [key]: value }));
+
+  const numberInput = (label: string, key: 'energy' | 'Lz' | 'orbits' | 'finalTime', step: number) => (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 4 }}>
+      <span style={{ minWidth: 110 }}>{label}</span>
+      <Form.Control
+        type="number"
+        size="sm"
+        step={step}
+        value={settings[key]}
+        onChange={e => {
+          const val = parseFloat(e.target.value);
+          if (Number.isFinite(val)) updateSetting(key, key === 'orbits' ? Math.max(1, Math.round(val)) : val);
+        }}
+      />
+    </div>
+  );
+
+  return (
+    <div style={{ marginBottom: 20 }}>
+      <h5>Poincaré section</h5>
+      <small>
+        Crossings of z = 0 plotted as (ρ, v<sub>ρ</sub>) for orbits with the same energy and L<sub>z</sub>.
+        Regular orbits trace closed curves, chaotic ones scatter. Click a point to use it as the initial condition.
+      </small>
+      {omitted.length > 0 && (
+        <small style={{ display: 'block', color: 'orange' }}>
+          E and L<sub>z</sub> are only conserved in the axisymmetric field, so the section leaves out {omitted.join(', ')} of this run.
+          A loaded point keeps them and will not stay on the section.
+        </small>
+      )}
+      {numberInput('Energy E', 'energy', 0.1)}
+      {numberInput('L_z', 'Lz', 0.1)}
+      {numberInput('Orbits', 'orbits', 1)}
+      {numberInput('Time per orbit', 'finalTime', 100)}
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 4 }}>
+        <span style={{ minWidth: 110 }}>Crossing</span>
+        <Form.Select
+          size="sm"
+          value={settings.direction}
+          onChange={e => updateSetting('direction', e.target.value as SectionDirection)}
+        >
+          <option value="ascending">z = 0, v_z &gt; 0</option>
+          <option value="descending">z = 0, v_z &lt; 0</option>
+        </Form.Select>
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <Button variant="outline-secondary" size="sm" onClick={() => setSettings(prev => settingsFrom(simParams, prev))}>
+          Use current orbit's E and L_z
+        </Button>
+        {progress === null ? (
+          <Button variant="outline-primary" size="sm" onClick={compute}>Compute</Button>
+        ) : (
+          <>
+            <ProgressBar now={progress * 100} label={`${Math.round(progress * 100)}%`} style={{ flexGrow: 1 }} />
+            <Button variant="outline-secondary" size="sm" onClick={() => { runIdRef.current++; stop(); }}>Cancel</Button>
+          </>
+        )}
+      </div>
+      {error && <small style={{ color: 'red' }}>{error}</small>}
+      {orbits.length > 0 && (
+        <Plot
+          data={orbits.map((orbit, k) => ({
+            x: orbit.points.map(point => point.rho),
+            y: orbit.points.map(point => point.vRho),
+            type: 'scattergl',
+            mode: 'markers',
+            marker: { size: 3, color: `hsl(${(360 * k) / orbits.length}, 80%, 60%)` },
+            name: `ρ₀ = ${orbit.points[0].rho.toFixed(3)}${orbit.status.kind === 'completed' ? '' : ` (${orbit.status.kind})`}`,
+          }))}
+          onClick={event => {
+            const point = event.points[0];
+            if (!point || !computedWith) return;
+            const state = sectionState(computedWith.params, computedWith.settings, { rho: Number(point.x), vRho: Number(point.y) });
+            if (state) onSelect(state.position, state.velocity);
+          }}
+          layout={{
+            autosize: true,
+            height: 400,
+            paper_bgcolor: 'rgba(0,0,0,0)',
+            plot_bgcolor: 'rgba(0,0,0,0)',
+            font: { color: 'rgba(255,255,255,0.87)' },
+            xaxis: { title: { text: 'ρ' }, gridcolor: 'rgba(255,255,255,0.1)' },
+            yaxis: { title: { text: 'v_ρ' }, gridcolor: 'rgba(255,255,255,0.1)' },
+            showlegend: false,
+            hovermode: 'closest',
+          }}
+          style={{ width: '100%' }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import Button from 'react-bootstrap/Button';
+import Table from 'react-bootstrap/Table';
+import ProgressBar from 'react-bootstrap/ProgressBar';
+import type { PrecessionBudget, SecularRate, SimulationParams } from './types';
+import { useAnalysis } from './useAnalysis';
+import { speedOfLight, toUnits, unitLabel } from './units';
+import type { CodeUnits, UnitSystem } from './units';
+
+interface PrecessionPanelProps {
+  simParams: SimulationParams;
+  units: CodeUnits;
+  unitSystem: UnitSystem;
+}
+
+const DEG = 180 / Math.PI;
+
+const ROWS: { key: keyof PrecessionBudget; label: string; theory: string }[] = [
+  { key: 'multipole', label: 'Multipole field only', theory: 'first-order J₂' },
+  { key: 'relativity', label: '1PN only, point mass', theory: '6πGM / c²a(1 − e²) per orbit' },
+  { key: 'combined', label: 'Both', theory: 'sum of the two' },
+];
+
+export default function PrecessionPanel({ simParams, units, unitSystem }: PrecessionPanelProps) {
+  const { result: rates, error, progress, run, cancel } = useAnalysis<'precession'>(simParams);
+  // without the correction switched on, compare with the physical speed of light
+  const c = simParams.speedOfLight ?? speedOfLight(units);
+
+  const formatRate = (rate: number) => Number.isFinite(rate)
+    ? `${(rate * DEG / toUnits(1, 'time', units, unitSystem)).toExponential(3)} °/${unitLabel('time', unitSystem) || 't'}`
+    : '—';
+  const row = (rate: SecularRate) => (
+    <>
+      <td>{formatRate(rate.measured)}</td>
+      <td>{formatRate(rate.theory)}</td>
+    </>
+  );
+
+  return (
+    <div style={{ marginBottom: 20 }}>
+      <h5>Perihelion precession</h5>
+      <small>
+        Runs the current initial conditions with the multipole field alone, with the 1PN correction alone around a point
+        mass, and with both, and fits the drift of ω in each. Perturbers are left out.
+      </small>
+      {progress === null ? (
+        <div>
+          <Button variant="outline-secondary" size="sm" onClick={() => run({ kind: 'precession', params: simParams, c })}>
+            Compare the multipole and relativistic precession (c = {c.toPrecision(6)})
+          </Button>
+        </div>
+      ) : (
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <ProgressBar now={progress * 100} label={`${Math.round(progress * 100)}%`} style={{ flexGrow: 1 }} />
+          <Button variant="outline-secondary" size="sm" onClick={cancel}>Cancel</Button>
+        </div>
+      )}
+      {error && <small style={{ color: 'red' }}>{error}</small>}
+      {rates && (
+        <Table size="sm" variant="dark" bordered className="mt-2">
+          <thead>
+            <tr>
+              <th>Force model (c = {c.toPrecision(6)})</th>
+              <th>Measured dω/dt (fit)</th>
+              <th>Theory</th>
+              <th>From</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ROWS.map(({ key, label, theory }) => (
+              <tr key={key}>
+                <td>{label}</td>
+                {row(rates[key])}
+                <td>{theory}</td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      )}
+    </div>
+  );
+}
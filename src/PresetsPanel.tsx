@@ -0,0 +1,68 @@
+import Form from 'react-bootstrap/Form';
+import ListGroup from 'react-bootstrap/ListGroup';
+import { useState } from 'react';
+import type { Preset } from './types';
+import { PRESETS, parsePresetsJson, matchesSearch } from './presets';
+
+interface PresetsPanelProps {
+  onLoad: (preset: Preset) => void;
+}
+
+export default function PresetsPanel({ onLoad }: PresetsPanelProps) {
+  const [query, setQuery] = useState('');
+  const [userPresets, setUserPresets] = useState<Preset[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const presets = [...PRESETS, ...userPresets].filter(preset => matchesSearch(preset, query));
+  const categories = [...new Set(presets.map(preset => preset.category))];
+
+  const importJson = async (file: File) => {
+    try {
+      const loaded = parsePresetsJson(await file.text());
+      // a preset with the same id as an earlier import replaces it
+      setUserPresets(prev => [...prev.filter(preset => !loaded.some(p => p.id === preset.id)), ...loaded]);
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div style={{ marginBottom: 20 }}>
+      <h5>Presets</h5>
+      <Form.Control
+        type="search"
+        size="sm"
+        placeholder="Search presets"
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        style={{ marginBottom: 8 }}
+      />
+      {categories.map(category => (
+        <div key={category} style={{ marginBottom: 8 }}>
+          <strong>{category}</strong>
+          <ListGroup>
+            {presets.filter(preset => preset.category === category).map(preset => (
+              <ListGroup.Item key={preset.id} action onClick={() => onLoad(preset)}>
+                <div>{preset.name}</div>
+                {preset.description && <small>{preset.description}</small>}
+              </ListGroup.Item>
+            ))}
+          </ListGroup>
+        </div>
+      ))}
+      {presets.length === 0 && <small>No presets match "{query}".</small>}
+      <Form.Label className="mt-2">Load presets from JSON</Form.Label>
+      <Form.Control
+        type="file"
+        size="sm"
+        accept=".json,application/json"
+        onChange={e => {
+          const file = (e.target as HTMLInputElement).files?.[0];
+          if (file) importJson(file);
+        }}
+      />
+      {importError && <small style={{ color: 'red' }}>{importError}</small>}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import Plot from 'react-plotly.js';
+import Form from 'react-bootstrap/Form';
+import { useState } from 'react';
+import type { Vec3, OrbitEvent, OrbitEventKind, ForceModel, PerturberTrack } from './types';
+import { EVENT_LABELS, EVENT_MARKERS } from './events';
+import { PERTURBER_COLORS } from './perturbers';
+
+export type Projection = 'xy' | 'xz' | 'rz';
+
+export interface Overlay {
+  name: string;
+  color: string;
+  data: Vec3[];
+}
+
+export interface AttractorShape {
+  size: number;
+  forceModel: ForceModel;
+  flattening: number;
+  point: boolean; // too small to draw, shown as a dot
+}
+
+const PROJECTIONS: Record<Projection, { title: string; axes: [string, string]; project: (p: Vec3) => [number, number] }> = {
+  xy: { title: 'Top-down (x, y)', axes: ['x', 'y'], project: p => [p.x, p.y] },
+  xz: { title: 'Side-on (x, z)', axes: ['x', 'z'], project: p => [p.x, p.z] },
+  rz: { title: 'Meridional (ρ, z)', axes: ['ρ', 'z'], project: p => [Math.sqrt(p.x * p.x + p.y * p.y), p.z] },
+};
+
+const ATTRACTOR_COLOR = 'rgba(255, 174, 0, 0.6)';
+
+// A closed curve through the angles from start to end on an ellipse with semi-axes a and b.
+function ellipse(a: number, b: number, start: number, end: number, resolution: number = 64): { x: number[]; y: number[] } {
+  const angles = Array.from({ length: resolution + 1 }, (_, k) => start + (end - start) * k / resolution);
+  return { x: angles.map(angle => a * Math.cos(angle)), y: angles.map(angle => b * Math.sin(angle)) };
+}
+
+// The attractor as it appears in a projection, to scale. The multipole model
+// is drawn as the sphere r = R where runs stop, the spheroid with its polar
+// flattening, and the thin ring edge-on as a line, or in the meridional plane
+// as the single point where it cuts it.
+function attractorOutline(view: Projection, shape: AttractorShape): Plotly.Data {
+  const R = shape.size;
+  const base = { hoverinfo: 'name' as const, name: 'Attractor', showlegend: false };
+  if (shape.point) {
+    return { ...base, x: [0], y: [0], type: 'scatter', mode: 'markers', marker: { size: 6, color: ATTRACTOR_COLOR } };
+  }
+  if (view === 'xy') {
+    return { ...base, ...ellipse(R, R, 0, 2 * Math.PI), type: 'scatter', mode: 'lines', fill: 'toself', fillcolor: ATTRACTOR_COLOR, line: { color: ATTRACTOR_COLOR } };
+  }
+  if (shape.forceModel === 'ring') {
+    return view === 'xz'
+      ? { ...base, x: [-R, R], y: [0, 0], type: 'scatter', mode: 'lines', line: { color: ATTRACTOR_COLOR, width: 3 } }
+      : { ...base, x: [R], y: [0], type: 'scatter', mode: 'markers', marker: { size: 6, color: ATTRACTOR_COLOR } };
+  }
+  const polar = shape.forceModel === 'spheroid' ? R * (1 - shape.flattening) : R;
+  const outline = view === 'xz' ? ellipse(R, polar, 0, 2 * Math.PI) : ellipse(R, polar, -Math.PI / 2, Math.PI / 2);
+  return { ...base, ...outline, type: 'scatter', mode: 'lines', fill: 'toself', fillcolor: ATTRACTOR_COLOR, line: { color: ATTRACTOR_COLOR } };
+}
+
+interface ProjectionPanelsProps {
+  data: Vec3[];
+  times: number[];
+  orbitColor: string;
+  showOrbit: boolean;
+  overlays: Overlay[];
+  events: OrbitEvent[];
+  perturbers: PerturberTrack[];
+  attractor: AttractorShape;
+  range: number; // half-width of every panel, shared with the 3-D view
+  hovered: number | null; // index of the orbit point under the cursor in any view
+  body: number | null; // index of the body during playback
+  onHover: (index: number | null) => void;
+}
+
+// Linked 2-D views of the active orbit, which show an inclination change or a
+// departure from the equatorial plane far more clearly than the 3-D plot.
+export default function ProjectionPanels({
+  data,
+  times,
+  orbitColor,
+  showOrbit,
+  overlays,
+  events,
+  perturbers,
+  attractor,
+  range,
+  hovered,
+  body,
+  onHover,
+}: ProjectionPanelsProps) {
+  const [visible, setVisible] = useState<Record<Projection, boolean>>({ xy: true, xz: true, rz: true });
+  const labels = times.map(t => `t = ${t.toFixed(2)}`);
+
+  const panel = (view: Projection) => {
+    const { title, axes, project } = PROJECTIONS[view];
+    const split = (points: Vec3[]) => {
+      const projected = points.map(project);
+      return { x: projected.map(p => p[0]), y: projected.map(p => p[1]) };
+    };
+    const cursor = (index: number | null, color: string, name: string): Plotly.Data[] =>
+      index !== null && data[index]
+        ? [{ ...split([data[index]]), type: 'scatter', mode: 'markers', marker: { size: 9, color }, name, hoverinfo: 'skip' }]
+        : [];
+
+    return (
+      <div key={view} style={{ flex: '1 1 250px', minWidth: 0 }}>
+        <Plot
+          data={[
+            // the orbit comes first so hover events can be matched to it by curve number
+            {
+              ...split(data),
+              text: labels,
+              type: 'scatter',
+              mode: 'lines',
+              line: { color: orbitColor },
+              opacity: body !== null ? 0.3 : 1,
+              visible: showOrbit,
+              name: 'Orbit',
+              hoverinfo: 'text',
+            },
+            attractorOutline(view, attractor),
+            ...(Object.keys(EVENT_MARKERS) as OrbitEventKind[])
+              .map(kind => ({ kind, found: events.filter(event => event.kind === kind) }))
+              .filter(({ found }) => found.length > 0)
+              .map(({ kind, found }) => ({
+                ...split(found.map(event => event.position)),
+                text: found.map(event => `${EVENT_LABELS[kind]}, t = ${event.time.toFixed(4)}`),
+                type: 'scatter' as const,
+                mode: 'markers' as const,
+                marker: { size: kind === 'impact' ? 10 : 7, color: EVENT_MARKERS[kind].color, symbol: EVENT_MARKERS[kind].symbol },
+                name: EVENT_LABELS[kind],
+                hoverinfo: 'text' as const,
+              })),
+            ...overlays.map(overlay => ({
+              ...split(overlay.data),
+              type: 'scatter' as const,
+              mode: 'lines' as const,
+              line: { color: overlay.color },
+              opacity: body !== null ? 0.3 : 1,
+              name: overlay.name,
+              hoverinfo: 'skip' as const,
+            })),
+            // perturbers, at the body's time during playback and at the start otherwise
+            ...perturbers.flatMap((track, k) => {
+              const color = PERTURBER_COLORS[k % PERTURBER_COLORS.length];
+              const at = track.positions[Math.min(body ?? 0, track.positions.length - 1)];
+              return [
+                { ...split(track.positions), type: 'scatter' as const, mode: 'lines' as const, line: { color, dash: 'dot' as const }, name: track.name, hoverinfo: 'skip' as const },
+                ...(at ? [{ ...split([at]), type: 'scatter' as const, mode: 'markers' as const, marker: { size: 8, color }, name: track.name, hoverinfo: 'name' as const }] : []),
+              ];
+            }),
+            ...cursor(body, 'yellow', 'Body'),
+            ...cursor(hovered, 'white', 'Cursor'),
+          ]}
+          onHover={event => {
+            const point = event.points.find(p => p.curveNumber === 0);
+            if (point) onHover(point.pointNumber);
+          }}
+          onUnhover={() => onHover(null)}
+          layout={{
+            autosize: true,
+            height: 300,
+            showlegend: false,
+            uirevision: view, // keep any zoom while the cursors move
+            title: { text: title, font: { size: 12 } },
+            margin: { l: 40, r: 10, t: 30, b: 35 },
+            paper_bgcolor: 'rgba(0,0,0,0)',
+            plot_bgcolor: 'rgba(0,0,0,0)',
+            font: { color: 'rgba(255,255,255,0.87)' },
+            xaxis: { title: { text: axes[0] }, range: view === 'rz' ? [0, range] : [-range, range], gridcolor: 'rgba(255,255,255,0.1)', zerolinecolor: 'rgba(255,255,255,0.2)' },
+            // equal scales, so an inclined orbit looks as tilted as it is
+            yaxis: { title: { text: axes[1] }, range: [-range, range], scaleanchor: 'x', scaleratio: 1, gridcolor: 'rgba(255,255,255,0.1)', zerolinecolor: 'rgba(255,255,255,0.2)' },
+            hovermode: 'closest',
+          }}
+          style={{ width: '100%' }}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div style={{ marginTop: 8 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, flexWrap: 'wrap' }}>
+        <span>Projections:</span>
+        {(Object.keys(PROJECTIONS) as Projection[]).map(view => (
+          <Form.Check
+            key={view}
+            type="switch"
+            id={`projection-${view}`}
+            label={PROJECTIONS[view].title}
+            checked={visible[view]}
+            onChange={e => setVisible(prev => ({ ...prev, [view]: e.target.checked }))}
+          />
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+        {(Object.keys(PROJECTIONS) as Projection[]).filter(view => visible[view]).map(panel)}
+      </div>
+    </div>
+  );
+}
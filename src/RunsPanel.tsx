@@ -0,0 +1,71 @@
+import Button from 'react-bootstrap/Button';
+import Form from 'react-bootstrap/Form';
+import ListGroup from 'react-bootstrap/ListGroup';
+import type { AccuracyReport, DuplicateKind, OrbitRun } from './types';
+import { AccuracyBadge } from './AccuracyPanel';
+
+interface RunsPanelProps {
+  runs: OrbitRun[];
+  activeId: number;
+  computing: Record<number, number>;
+  checking: Record<number, number>; // accuracy checks in progress
+  accuracy: Record<number, AccuracyReport>;
+  onSelect: (id: number) => void;
+  onToggleVisible: (id: number) => void;
+  onDuplicate: (id: number, kind: DuplicateKind) => void;
+  onRemove: (id: number) => void;
+}
+
+export default function RunsPanel({
+  runs, activeId, computing, checking, accuracy, onSelect, onToggleVisible, onDuplicate, onRemove
+}: RunsPanelProps) {
+  return (
+    <div style={{ marginBottom: 20 }}>
+      <h2>Runs</h2>
+      <small>The simulation parameters edit the selected run.</small>
+      <ListGroup>
+        {runs.map(run => (
+          <ListGroup.Item
+            key={run.id}
+            active={run.id === activeId}
+            style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}
+          >
+            <span style={{ width: 14, height: 14, borderRadius: 7, background: run.color, display: 'inline-block' }} />
+            <Form.Check
+              type="checkbox"
+              id={`run-visible-${run.id}`}
+              checked={run.visible}
+              onChange={() => onToggleVisible(run.id)}
+              title="Show in plot"
+            />
+            <span role="button" style={{ flexGrow: 1 }} onClick={() => onSelect(run.id)}>
+              {run.name}
+              {run.id in computing && ` (computing ${Math.round(computing[run.id] * 100)}%)`}
+              {!(run.id in computing) && run.id in checking && ` (checking accuracy ${Math.round(checking[run.id] * 100)}%)`}
+            </span>
+            <AccuracyBadge report={accuracy[run.id]} />
+            <Button variant="outline-light" size="sm" onClick={() => onDuplicate(run.id, 'copy')}>
+              Duplicate
+            </Button>
+            <Button variant="outline-light" size="sm" onClick={() => onDuplicate(run.id, 'point-attractor')}>
+              Duplicate with point attractor
+            </Button>
+            {run.params.forceModel !== 'zonal' && (
+              <Button variant="outline-light" size="sm" onClick={() => onDuplicate(run.id, 'quadrupole')}>
+                Duplicate with quadrupole truncation
+              </Button>
+            )}
+            <Button
+              variant="outline-danger"
+              size="sm"
+              disabled={runs.length === 1}
+              onClick={() => onRemove(run.id)}
+            >
+              Remove
+            </Button>
+          </ListGroup.Item>
+        ))}
+      </ListGroup>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import Plot from 'react-plotly.js';
+import Form from 'react-bootstrap/Form';
+import { useState } from 'react';
+import type { OrbitResult, OrbitRun } from './types';
+import { separation } from './diagnostics';
+
+interface SeparationPlotProps {
+  runs: OrbitRun[];
+  results: Record<number, OrbitResult>;
+}
+
+export default function SeparationPlot({ runs, results }: SeparationPlotProps) {
+  const [firstId, setFirstId] = useState<number | null>(null);
+  const [secondId, setSecondId] = useState<number | null>(null);
+
+  // fall back to the first two runs if nothing (or a removed run) is selected
+  const first = runs.find(run => run.id === firstId) ?? runs[0];
+  const second = runs.find(run => run.id === secondId && run.id !== first.id) ?? runs.find(run => run.id !== first.id);
+
+  if (!second) return null;
+
+  const a = results[first.id];
+  const b = results[second.id];
+  const { t, distance } = a && b
+    ? separation(a.times, a.positions, b.times, b.positions)
+    : { t: [], distance: [] };
+
+  const runSelect = (value: number, onChange: (id: number) => void) => (
+    <Form.Select size="sm" style={{ width: 'auto' }} value={value} onChange={e => onChange(parseInt(e.target.value))}>
+      {runs.map(run => (
+        <option key={run.id} value={run.id}>{run.name}</option>
+      ))}
+    </Form.Select>
+  );
+
+  return (
+    <div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        Separation between {runSelect(first.id, setFirstId)} and {runSelect(second.id, setSecondId)}
+      </div>
+      <Plot
+        data={[{
+          x: t,
+          y: distance,
+          type: 'scatter',
+          mode: 'lines',
+          name: 'separation',
+          line: { color: second.color },
+        }]}
+        layout={{
+          autosize: true,
+          height: 300,
+          showlegend: false,
+          paper_bgcolor: 'rgba(0,0,0,0)',
+          plot_bgcolor: 'rgba(0,0,0,0)',
+          font: { color: 'rgba(255,255,255,0.87)' },
+          xaxis: { title: { text: 't' }, gridcolor: 'rgba(255,255,255,0.1)' },
+          yaxis: { title: { text: '|r₁ − r₂|' }, gridcolor: 'rgba(255,255,255,0.1)', type: 'log' },
+        }}
+        style={{ width: '100%' }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import Plot from 'react-plotly.js';
+import Form from 'react-bootstrap/Form';
+import Button from 'react-bootstrap/Button';
+import ProgressBar from 'react-bootstrap/ProgressBar';
+import { useEffect, useRef, useState } from 'react';
+import type { SimulationParams, SweepAxis, SweepCell, SweepParameter, SweepSettings, SweepWorkerRequest, SweepWorkerResponse } from './types';
+import { MAX_SWEEP_STEPS, SWEEP_PARAMETER_LABELS, sweepTasks, sweepToCsv, sweepToJson, sweepValues } from './sweep';
+import { download } from './exporting';
+
+interface SweepPanelProps {
+  simParams: SimulationParams;
+  onSelect: (params: SimulationParams) => void; // a clicked cell as the active run
+}
+
+type SweepMetric = 'outcome' | 'impactTime' | 'energyDrift' | 'nodalRate';
+
+const METRIC_LABELS: Record<SweepMetric, string> = {
+  outcome: 'Outcome (bound, escaped, collided)',
+  impactTime: 'Time of impact',
+  energyDrift: 'Energy drift (log₁₀)',
+  nodalRate: 'Nodal precession rate dΩ/dt (°/t)',
+};
+
+const OUTCOME_CODES = { bound: 0, escaped: 1, collided: 2, failed: 3 };
+const OUTCOME_COLORS: [number, string][] = [
+  [0, 'seagreen'], [0.25, 'seagreen'],
+  [0.25, 'royalblue'], [0.5, 'royalblue'],
+  [0.5, 'orangered'], [0.75, 'orangered'],
+  [0.75, 'gray'], [1, 'gray'],
+];
+
+const createWorker = () => new Worker(new URL('./sweep.worker.ts', import.meta.url), { type: 'module' });
+
+// each cell is a whole orbit, so use most of the machine but leave a core for the page
+const workerCount = () => Math.max(1, Math.min(4, (navigator.hardwareConcurrency ?? 2) - 1));
+
+function metricValue(cell: SweepCell | null, metric: SweepMetric): number | null {
+  if (!cell) return null;
+  const value = metric === 'outcome'
+    ? OUTCOME_CODES[cell.outcome]
+    : metric === 'energyDrift'
+      ? Math.log10(cell.energyDrift)
+      : metric === 'nodalRate'
+        ? cell.nodalRate * 180 / Math.PI
+        : cell.impactTime;
+  return Number.isFinite(value) ? value : null;
+}
+
+const defaultAxis = (parameter: SweepParameter, params: SimulationParams): SweepAxis => {
+  const speed = Math.hypot(params.initialVelocity.x, params.initialVelocity.y, params.initialVelocity.z);
+  switch (parameter) {
+    case 'attractorSize': return { parameter, min: 0.5, max: 2, steps: 16 };
+    case 'x0': return { parameter, min: 2, max: 6, steps: 21 };
+    case 'z0': return { parameter, min: -2, max: 2, steps: 21 };
+    case 'speed': return { parameter, min: 0.5 * speed, max: 1.5 * speed, steps: 21 };
+    case 'inclination': return { parameter, min: 0, max: 90, steps: 19 };
+    case 'J2': return { parameter, min: 0, max: 1, steps: 21 };
+    case 'finalTime': return { parameter, min: 100, max: 1000, steps: 10 };
+  }
+};
+
+export default function SweepPanel({ simParams, onSelect }: SweepPanelProps) {
+  const [settings, setSettings] = useState<SweepSettings>(() => ({
+    x: defaultAxis('speed', simParams),
+    y: defaultAxis('inclination', simParams),
+  }));
+  const [metric, setMetric] = useState<SweepMetric>('outcome');
+  const [cells, setCells] = useState<(SweepCell | null)[]>([]);
+  // what the plotted cells were computed with, so clicks and exports match them
+  const [computedWith, setComputedWith] = useState<{ params: SimulationParams; settings: SweepSettings } | null>(null);
+  const [done, setDone] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const workersRef = useRef<Worker[]>([]);
+  const runIdRef = useRef(0);
+
+  const stop = () => {
+    workersRef.current.forEach(worker => worker.terminate());
+    workersRef.current = [];
+    setDone(null);
+  };
+
+  useEffect(() => () => workersRef.current.forEach(worker => worker.terminate()), []);
+
+  const cellCount = settings.x.steps * (settings.y?.steps ?? 1);
+
+  const run = () => {
+    stop();
+    if (simParams.forceModel !== 'zonal' && [settings.x, settings.y].some(axis => axis?.parameter === 'J2')) {
+      setError('J₂ can only be swept with the multipole force model');
+      return;
+    }
+    setError(null);
+    const tasks = sweepTasks(simParams, settings);
+    const id = ++runIdRef.current;
+    let finished = 0;
+    setCells(new Array(tasks.length).fill(null));
+    setComputedWith({ params: simParams, settings });
+    setDone(0);
+
+    // deal the cells out in turn so every worker gets a similar mix of short and long orbits
+    const count = workerCount();
+    workersRef.current = Array.from({ length: count }, (_, k) => {
+      const worker = createWorker();
+      worker.onmessage = (event: MessageEvent<SweepWorkerResponse>) => {
+        const message = event.data;
+        if (message.id !== runIdRef.current) return;
+        setCells(prev => prev.map((cell, index) => index === message.index ? message.cell : cell));
+        finished++;
+        if (finished === tasks.length) stop();
+        else setDone(finished);
+      };
+      const request: SweepWorkerRequest = { type: 'sweep', id, tasks: tasks.filter((_, index) => index % count === k) };
+      worker.postMessage(request);
+      return worker;
+    });
+  };
+
+  const axisEditor = (label: string, axis: SweepAxis, onChange: (axis: SweepAxis) => void) => (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 4, flexWrap: 'wrap' }}>
+      <span style={{ minWidth: 60 }}>{label}</span>
+      <Form.Select
+        size="sm"
+        style={{ width: 'auto' }}
+        value={axis.parameter}
+        onChange={e => onChange(defaultAxis(e.target.value as SweepParameter, simParams))}
+      >
+        {(Object.keys(SWEEP_PARAMETER_LABELS) as SweepParameter[]).map(parameter => (
+          <option key={parameter} value={parameter}>{SWEEP_PARAMETER_LABELS[parameter]}</option>
+        ))}
+      </Form.Select>
+      {(['min', 'max', 'steps'] as const).map(key => (
+        <Form.Control
+          key={key}
+          type="number"
+          size="sm"
+          style={{ width: 90 }}
+          title={key}
+          value={axis[key]}
+          onChange={e => {
+            const val = parseFloat(e.target.value);
+            if (!Number.isFinite(val)) return;
+            onChange({ ...axis, [key]: key === 'steps' ? Math.min(MAX_SWEEP_STEPS, Math.max(1, Math.round(val))) : val });
+          }}
+        />
+      ))}
+    </div>
+  );
+
+  const plotted = computedWith?.settings;
+  const xs = plotted ? sweepValues(plotted.x) : [];
+  const ys = plotted?.y ? sweepValues(plotted.y) : [];
+  const values = cells.map(cell => metricValue(cell, metric));
+  const selectCell = (index: number) => {
+    if (!computedWith) return;
+    const task = sweepTasks(computedWith.params, computedWith.settings)[index];
+    if (task) onSelect(task.params);
+  };
+
+  return (
+    <div style={{ marginBottom: 20 }}>
+      <h5>Parameter sweep</h5>
+      <small>
+        Runs the current orbit for every value on a grid of one or two parameters, in {workerCount()} background
+        worker(s). Columns are min, max and number of steps. Click a cell to load it as the active run.
+      </small>
+      {axisEditor('x axis', settings.x, x => setSettings(prev => ({ ...prev, x })))}
+      <Form.Check
+        type="checkbox"
+        id="sweep-second-axis"
+        label="Sweep a second parameter"
+        checked={settings.y !== null}
+        onChange={e => setSettings(prev => ({ ...prev, y: e.target.checked ? defaultAxis('inclination', simParams) : null }))}
+      />
+      {settings.y && axisEditor('y axis', settings.y, y => setSettings(prev => ({ ...prev, y })))}
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 4 }}>
+        {done === null ? (
+          <Button variant="outline-primary" size="sm" onClick={run}>Run {cellCount} orbits</Button>
+        ) : (
+          <>
+            <ProgressBar now={100 * done / cellCount} label={`${done} / ${cellCount}`} style={{ flexGrow: 1 }} />
+            <Button variant="outline-secondary" size="sm" onClick={() => { runIdRef.current++; stop(); }}>Cancel</Button>
+          </>
+        )}
+      </div>
+      {error && <small style={{ color: 'red' }}>{error}</small>}
+      {computedWith && plotted && (
+        <>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 8 }}>
+            <Form.Select size="sm" style={{ width: 'auto' }} value={metric} onChange={e => setMetric(e.target.value as SweepMetric)}>
+              {(Object.keys(METRIC_LABELS) as SweepMetric[]).map(key => (
+                <option key={key} value={key}>{METRIC_LABELS[key]}</option>
+              ))}
+            </Form.Select>
+            <Button variant="outline-secondary" size="sm" onClick={() => download('sweep.csv', sweepToCsv(plotted, cells), 'text/csv')}>
+              CSV
+            </Button>
+            <Button
+              variant="outline-secondary"
+              size="sm"
+              onClick={() => download('sweep.json', sweepToJson(computedWith.params, plotted, cells), 'application/json')}
+            >
+              JSON
+            </Button>
+          </div>
+          <Plot
+            data={[plotted.y ? {
+              x: xs,
+              y: ys,
+              z: ys.map((_, iy) => values.slice(iy * xs.length, (iy + 1) * xs.length)),
+              type: 'heatmap',
+              ...(metric === 'outcome'
+                ? { zmin: 0, zmax: 3, colorscale: OUTCOME_COLORS, colorbar: { tickvals: [0.375, 1.125, 1.875, 2.625], ticktext: ['bound', 'escaped', 'collided', 'failed'] } }
+                : { colorscale: 'Viridis' }),
+              hoverongaps: false,
+            } : {
+              x: xs,
+              y: values,
+              type: 'scatter',
+              mode: 'lines+markers',
+            }]}
+            onClick={event => {
+              const point = event.points[0];
+              if (!point) return;
+              const ix = xs.indexOf(Number(point.x));
+              const iy = plotted.y ? ys.indexOf(Number(point.y)) : 0;
+              if (ix >= 0 && iy >= 0) selectCell(iy * xs.length + ix);
+            }}
+            layout={{
+              autosize: true,
+              height: 400,
+              paper_bgcolor: 'rgba(0,0,0,0)',
+              plot_bgcolor: 'rgba(0,0,0,0)',
+              font: { color: 'rgba(255,255,255,0.87)' },
+              xaxis: { title: { text: SWEEP_PARAMETER_LABELS[plotted.x.parameter] }, gridcolor: 'rgba(255,255,255,0.1)' },
+              yaxis: {
+                title: { text: plotted.y ? SWEEP_PARAMETER_LABELS[plotted.y.parameter] : METRIC_LABELS[metric] },
+                gridcolor: 'rgba(255,255,255,0.1)',
+                ...(!plotted.y && metric === 'outcome'
+                  ? { tickvals: [0, 1, 2, 3], ticktext: ['bound', 'escaped', 'collided', 'failed'] }
+                  : {}),
+              },
+              hovermode: 'closest',
+            }}
+            style={{ width: '100%' }}
+          />
+        </>
+      )}
+    </div>
+  );
+}
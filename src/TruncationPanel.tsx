@@ -0,0 +1,68 @@
+import Plot from 'react-plotly.js';
+import type { Vec3, SimulationParams } from './types';
+import { GM } from './physics';
+import { truncationError } from './exactModels';
+
+interface TruncationPanelProps {
+  simParams: SimulationParams;
+  positions: Vec3[];
+  orbitColor?: string;
+}
+
+// truncation degrees compared against the exact model
+const DEGREES = [2, 4, 8];
+const SYMBOLS = ['circle', 'square', 'diamond'];
+
+export default function TruncationPanel({ simParams, positions, orbitColor = 'red' }: TruncationPanelProps) {
+  const { forceModel, flattening, attractorSize: R } = simParams;
+  if (forceModel === 'zonal' || positions.length === 0) return null;
+
+  const distance = positions.map(pos => Math.sqrt(pos.x * pos.x + pos.y * pos.y + pos.z * pos.z) / R);
+  // the series diverges inside the ring itself, or inside the spheroid's focal circle at R e
+  const convergence = forceModel === 'ring' ? 1 : Math.sqrt(1 - (1 - flattening) ** 2);
+
+  return (
+    <div>
+      <Plot
+        data={DEGREES.map((degree, k) => ({
+          x: distance,
+          y: truncationError(positions, GM, R, forceModel, flattening, degree),
+          type: 'scatter',
+          mode: 'markers',
+          marker: { color: orbitColor, size: 3, opacity: 1 - 0.3 * k, symbol: SYMBOLS[k] },
+          name: degree === 2 ? 'quadrupole (J₂)' : `up to J${degree}`,
+        }))}
+        layout={{
+          autosize: true,
+          height: 350,
+          title: {
+            text: 'Force error of the truncated multipole expansion along the orbit',
+            font: { size: 12 }
+          },
+          paper_bgcolor: 'rgba(0,0,0,0)',
+          plot_bgcolor: 'rgba(0,0,0,0)',
+          font: { color: 'rgba(255,255,255,0.87)' },
+          xaxis: { title: { text: 'r / R' }, gridcolor: 'rgba(255,255,255,0.1)' },
+          yaxis: { title: { text: '|a_trunc − a_exact| / |a_exact|' }, gridcolor: 'rgba(255,255,255,0.1)', type: 'log' },
+          shapes: [{
+            type: 'line',
+            xref: 'x',
+            yref: 'paper',
+            x0: convergence,
+            x1: convergence,
+            y0: 0,
+            y1: 1,
+            line: { color: 'white', dash: 'dot', width: 1 },
+          }],
+          legend: { orientation: 'h' },
+        }}
+        style={{ width: '100%' }}
+      />
+      <small>
+        The error grows like (R/r)<sup>n+2</sup> as the orbit comes in; once it is no longer small
+        the truncated run stops following the exact one. The dotted line marks r = {convergence.toFixed(3)} R,
+        inside which the expansion does not converge at all.
+      </small>
+    </div>
+  );
+}
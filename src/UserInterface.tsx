@@ -1,14 +1,28 @@
 import Form from 'react-bootstrap/Form';
 import Button from 'react-bootstrap/Button';
 import type { Dispatch, SetStateAction } from 'react';
-import { Vec3 } from './types';
+import InitialConditions from './InitialConditions';
+import PerturbersEditor from './PerturbersEditor';
+import { NumberField } from './InitialConditions';
+import type { ForceModel, IntegratorMethod, ReferenceFrame, SimulationParams, ThrustDirection } from './types';
+import { THESIS_ZONAL } from './harmonics';
+import { FORCE_MODEL_LABELS, equivalentZonal } from './exactModels';
+import { THRUST_DIRECTION_LABELS } from './dissipation';
+import { hasVelocityDependentForces } from './physics';
+import { BODIES, THESIS_BODY_ID, UNIT_SYSTEM_LABELS, codeUnits, findBody, formatQuantity, speedOfLight } from './units';
+import type { UnitSystem } from './units';
 
-interface SimulationParams {
-    attractorSize: number;
-    finalTime: number;
-    initialPosition: Vec3;
-    initialVelocity: Vec3;
-}
+const integratorLabels: Record<IntegratorMethod, string> = {
+    rk2: 'RK2 (fixed step, as in the thesis)',
+    rk4: 'RK4 (fixed step)',
+    rk45: 'Dormand-Prince RK45 (adaptive)',
+    leapfrog: 'Leapfrog (symplectic, 2nd order)',
+    yoshida: 'Yoshida (symplectic, 4th order)'
+};
+
+const toleranceOptions = [1e-4, 1e-6, 1e-8, 1e-10, 1e-12];
+
+const timeStepOptions = [0.5, 0.2, 0.1, 0.05, 0.02, 0.01];
 
 interface UserInterfaceProps {
     simParams: SimulationParams;
@@ -16,10 +30,28 @@ interface UserInterfaceProps {
 
     energy?: number;
     setCalcEnergy: Dispatch<SetStateAction<number>>;
+
+    unitSystem: UnitSystem;
+    setUnitSystem: (system: UnitSystem) => void;
 }
 
 export default function UserInterface(
-    { simParams, setSimParams, energy, setCalcEnergy }: UserInterfaceProps) {
+    { simParams, setSimParams, energy, setCalcEnergy, unitSystem, setUnitSystem }: UserInterfaceProps) {
+    const body = findBody(simParams.body);
+    const units = codeUnits(simParams.body);
+    const { drag, thrust } = simParams;
+    const { initialPosition: p0, initialVelocity: v0 } = simParams;
+    const initialLz = p0.x * v0.y - p0.y * v0.x;
+    const direction = simParams.finalTime < 0 ? -1 : 1;
+
+    // a real body fixes R as the length unit and brings its measured harmonics
+    const selectBody = (id: string) => {
+        const selected = findBody(id);
+        setSimParams(prev => selected
+            ? { ...prev, body: selected.id, attractorSize: 1, zonal: selected.zonal }
+            : { ...prev, body: THESIS_BODY_ID, zonal: THESIS_ZONAL });
+    };
+
     // Helper function to update a single parameter
     const updateParam = <K extends keyof SimulationParams>(
         key: K,
@@ -62,79 +94,340 @@ export default function UserInterface(
         setCalcEnergy(prevEnergy => prevEnergy);
     };
 
-    // function to validate position is outside attractor radius
-    const isValidPosition = (position: Vec3, attractorSize: number): boolean => {
-        const r = Math.sqrt(position.x**2 + position.y**2 + position.z**2);
-        return r >= attractorSize;
-    };
-
-    // function to update a nested Vec3 property
-    const updateVec3 = (
-        vecKey: 'initialPosition' | 'initialVelocity',
-        component: 'x' | 'y' | 'z',
-        value: number
-    ) => {
-        if (vecKey === 'initialPosition') {
-            const newPosition = {
-                ...simParams.initialPosition,
-                [component]: value
-            };
-            
-            if (isValidPosition(newPosition, simParams.attractorSize)) {
-                setSimParams(prev => ({
-                    ...prev,
-                    initialPosition: newPosition
-                }));
-
-                setCalcEnergy(prevEnergy => prevEnergy);
-            } else {
-                console.warn(`Position would be inside attractor. Minimum distance from origin must be ${simParams.attractorSize}.`);
-            }
-        } else {
-            setSimParams(prev => ({
-                ...prev,
-                [vecKey]: {
-                    ...prev[vecKey],
-                    [component]: value
-                }
-            }));
-
-            setCalcEnergy(prevEnergy => prevEnergy);
-        }
-    };
-
     return (
         <div style={{ marginBottom: 20 }}>
             <h2>Simulation Parameters</h2>
+            <Form.Label>Central body</Form.Label>
+            <Form.Select value={simParams.body} onChange={e => selectBody(e.target.value)}>
+                <option value={THESIS_BODY_ID}>Thesis ring (AU, years, GM = 4π²)</option>
+                {BODIES.map(b => (
+                    <option key={b.id} value={b.id}>{b.name} (measured J₂ = {b.zonal[0].toExponential(4)})</option>
+                ))}
+            </Form.Select>
+            <Form.Label>Show results in</Form.Label>
+            <Form.Select value={unitSystem} onChange={e => setUnitSystem(e.target.value as UnitSystem)}>
+                {(Object.keys(UNIT_SYSTEM_LABELS) as UnitSystem[]).map(system => (
+                    <option key={system} value={system}>{UNIT_SYSTEM_LABELS[system]}</option>
+                ))}
+            </Form.Select>
+            {body && (
+                <small>
+                    Simulation units for {body.name}: length R = {(body.radius / 1000).toFixed(3)} km,
+                    time {(units.time / 60).toFixed(2)} min (the period of a circular orbit at r = R, ignoring J₂).
+                </small>
+            )}
             <div>
-                <strong>System Energy: </strong> {energy !== undefined ? energy.toFixed(4) : 'Calculating...'}
+                <strong>System Energy: </strong> {energy !== undefined ? formatQuantity(energy, 'energy', units, unitSystem) : 'Calculating...'}
                 <strong>{energy !== undefined ? (energy > 0 ? ' (Unbound)' : ' (Bound)') : ''}</strong>
             </div>
+            {energy !== undefined && simParams.spinRate !== 0 && (
+                <div>
+                    <strong>Jacobi constant (rotating frame): </strong>
+                    {formatQuantity(energy - simParams.spinRate * initialLz, 'energy', units, unitSystem)}
+                </div>
+            )}
             <>
-            <Form.Label>Final Time: {simParams.finalTime}</Form.Label>
+            <Form.Label>
+                Final Time: {simParams.finalTime}
+                {unitSystem !== 'simulation' && ` (${formatQuantity(simParams.finalTime, 'time', units, unitSystem)})`}
+            </Form.Label>
             <Form.Range 
-                value={simParams.finalTime} 
+                value={Math.abs(simParams.finalTime)} 
                 min={100} 
                 max={1000} 
                 step={100} 
-                onChange={e => updateParam('finalTime', parseFloat(e.target.value))} 
+                onChange={e => updateParam('finalTime', direction * parseFloat(e.target.value))} 
             />
+            <Form.Check
+                type="checkbox"
+                id="integrate-backward"
+                label="Integrate backward in time"
+                checked={direction < 0}
+                onChange={e => updateParam('finalTime', (e.target.checked ? -1 : 1) * Math.abs(simParams.finalTime))}
+            />
+            <Form.Label>Time step: {simParams.timeStep}</Form.Label>
+            <Form.Select
+                value={simParams.timeStep}
+                onChange={e => updateParam('timeStep', parseFloat(e.target.value))}
+            >
+                {(timeStepOptions.includes(simParams.timeStep) ? timeStepOptions : [...timeStepOptions, simParams.timeStep]).map(step => (
+                    <option key={step} value={step}>{step}</option>
+                ))}
+            </Form.Select>
+            <small>
+                {simParams.integrator.method === 'rk45'
+                    ? 'The spacing of the output points; the adaptive steps in between follow the tolerance.'
+                    : 'Halving the step cuts the error of an order-p method by 2^p, at twice the cost.'}
+            </small>
             <br />
-            <Form.Label>Attractor Size: {simParams.attractorSize}</Form.Label>
+            <Form.Label>Integrator</Form.Label>
+            <Form.Select
+                value={simParams.integrator.method}
+                onChange={e => updateParam('integrator', {
+                    ...simParams.integrator,
+                    method: e.target.value as IntegratorMethod
+                })}
+            >
+                {(Object.keys(integratorLabels) as IntegratorMethod[]).map(method => (
+                    <option key={method} value={method}>{integratorLabels[method]}</option>
+                ))}
+            </Form.Select>
+            {(simParams.integrator.method === 'leapfrog' || simParams.integrator.method === 'yoshida') && hasVelocityDependentForces(simParams) && (
+                <small>
+                    The Coriolis term, the 1PN correction, drag and thrust depend on velocity, so the last kick of each
+                    step is solved implicitly. The integrator keeps its order and stays time-reversible, but it is not
+                    symplectic with these forces.
+                </small>
+            )}
+            {simParams.integrator.method === 'rk45' && (
+                <>
+                    <Form.Label>Tolerance: {simParams.integrator.relTol.toExponential(0)}</Form.Label>
+                    <Form.Select
+                        value={simParams.integrator.relTol}
+                        onChange={e => {
+                            const tol = parseFloat(e.target.value);
+                            updateParam('integrator', { ...simParams.integrator, relTol: tol, absTol: tol });
+                        }}
+                    >
+                        {toleranceOptions.map(tol => (
+                            <option key={tol} value={tol}>{tol.toExponential(0)}</option>
+                        ))}
+                    </Form.Select>
+                </>
+            )}
             <br />
-            <Button
-                variant="outline-secondary"
-                onClick={() => updateParam('attractorSize', 0.00001)}
+            {body ? (
+                <Form.Label>Attractor Size (reference radius R): the equatorial radius of {body.name}</Form.Label>
+            ) : (
+                <>
+                    <Form.Label>Attractor Size (reference radius R): {simParams.attractorSize}</Form.Label>
+                    <br />
+                    <Button
+                        variant="outline-secondary"
+                        onClick={() => updateParam('attractorSize', 0.00001)}
+                    >
+                        Use Point Attractor (no multipole)
+                    </Button>
+                    <Form.Range 
+                        value={simParams.attractorSize} 
+                        min={1} 
+                        max={5} 
+                        step={1} 
+                        onChange={e => updateParam('attractorSize', parseFloat(e.target.value))} 
+                    />
+                </>
+            )}
+            <Form.Label>Force model</Form.Label>
+            <Form.Select
+                value={simParams.forceModel}
+                onChange={e => updateParam('forceModel', e.target.value as ForceModel)}
             >
-                Use Point Attractor (no multipole)
-            </Button>
-            <Form.Range 
-                value={simParams.attractorSize} 
-                min={1} 
-                max={5} 
-                step={1} 
-                onChange={e => updateParam('attractorSize', parseFloat(e.target.value))} 
+                {(Object.keys(FORCE_MODEL_LABELS) as ForceModel[]).map(model => (
+                    <option key={model} value={model}>{FORCE_MODEL_LABELS[model]}</option>
+                ))}
+            </Form.Select>
+            {simParams.forceModel === 'zonal' ? (
+                <>
+                    <Form.Label>Zonal harmonics (J₂ = 0.5 is a thin ring, J₂ &lt; 0 is prolate, odd J<sub>n</sub> break north-south symmetry)</Form.Label>
+                    {simParams.zonal.map((Jn, k) => (
+                        <div key={k} style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 4 }}>
+                            <span style={{ minWidth: 32 }}>J<sub>{k + 2}</sub></span>
+                            <Form.Control
+                                type="number"
+                                step={0.01}
+                                value={Jn}
+                                onChange={e => {
+                                    const val = parseFloat(e.target.value);
+                                    if (!Number.isFinite(val)) return;
+                                    updateParam('zonal', simParams.zonal.map((J, j) => j === k ? val : J));
+                                }}
+                            />
+                        </div>
+                    ))}
+                    <Button
+                        variant="outline-secondary"
+                        size="sm"
+                        onClick={() => updateParam('zonal', [...simParams.zonal, 0])}
+                    >
+                        Add J<sub>{simParams.zonal.length + 2}</sub>
+                    </Button>{' '}
+                    <Button
+                        variant="outline-secondary"
+                        size="sm"
+                        disabled={simParams.zonal.length === 0}
+                        onClick={() => updateParam('zonal', simParams.zonal.slice(0, -1))}
+                    >
+                        Remove J<sub>{simParams.zonal.length + 1}</sub>
+                    </Button>
+                </>
+            ) : (
+                <>
+                    {simParams.forceModel === 'spheroid' && (
+                        <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 4 }}>
+                            <span style={{ minWidth: 32 }}>f</span>
+                            <Form.Control
+                                type="number"
+                                step={0.05}
+                                min={0}
+                                max={0.95}
+                                value={simParams.flattening}
+                                onChange={e => {
+                                    const val = parseFloat(e.target.value);
+                                    if (!Number.isFinite(val) || val < 0 || val >= 1) return;
+                                    updateParam('flattening', val);
+                                }}
+                            />
+                        </div>
+                    )}
+                    <small>
+                        {simParams.forceModel === 'ring'
+                            ? 'The potential of a thin uniform ring of radius R in the equatorial plane'
+                            : `The potential of a homogeneous oblate spheroid with equatorial radius R and polar radius ${(simParams.attractorSize * (1 - simParams.flattening)).toFixed(3)}`}
+                        {' '}in closed form, with no multipole truncation; the zonal list is not used. Its
+                        quadrupole alone is J₂ = {equivalentZonal(simParams.forceModel, simParams.flattening)[0].toFixed(4)}.
+                        The run still stops at r = R.
+                    </small>
+                </>
+            )}
+            <br />
+            <Form.Label className="mt-2">Triaxial attractor (C₂₂ &gt; 0 stretches the equator along x, which breaks L<sub>z</sub> conservation)</Form.Label>
+            {(['C22', 'S22'] as const).map(key => (
+                <div key={key} style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 4 }}>
+                    <span style={{ minWidth: 32 }}>{key[0]}<sub>22</sub></span>
+                    <Form.Control
+                        type="number"
+                        step={0.01}
+                        value={simParams.tesseral[key]}
+                        onChange={e => {
+                            const val = parseFloat(e.target.value);
+                            if (!Number.isFinite(val)) return;
+                            updateParam('tesseral', { ...simParams.tesseral, [key]: val });
+                        }}
+                    />
+                </div>
+            ))}
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 4 }}>
+                <span style={{ minWidth: 32 }}>Ω</span>
+                <Form.Control
+                    type="number"
+                    step={0.1}
+                    value={simParams.spinRate}
+                    onChange={e => {
+                        const val = parseFloat(e.target.value);
+                        if (!Number.isFinite(val)) return;
+                        updateParam('spinRate', val);
+                    }}
+                />
+            </div>
+            <small>
+                Spin rate of the attractor about z in rad per time unit
+                {simParams.spinRate !== 0 && `, one turn every ${(2 * Math.PI / Math.abs(simParams.spinRate)).toFixed(3)} time units`}.
+            </small>
+            <Form.Select
+                value={simParams.frame}
+                onChange={e => updateParam('frame', e.target.value as ReferenceFrame)}
+            >
+                <option value="inertial">Integrate and show in the inertial frame</option>
+                <option value="rotating">Integrate and show in the frame rotating with the attractor</option>
+            </Form.Select>
+            <Form.Check
+                type="checkbox"
+                id="post-newtonian"
+                className="mt-2"
+                label="1PN relativistic correction (Schwarzschild, alongside the multipole terms)"
+                checked={simParams.speedOfLight !== null}
+                onChange={e => updateParam('speedOfLight', e.target.checked ? speedOfLight(units) : null)}
+            />
+            {simParams.speedOfLight !== null && (
+                <>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 4 }}>
+                        <span style={{ minWidth: 32 }}>c</span>
+                        <Form.Control
+                            type="number"
+                            value={simParams.speedOfLight}
+                            onChange={e => {
+                                const val = parseFloat(e.target.value);
+                                if (!Number.isFinite(val) || val <= 0) return;
+                                updateParam('speedOfLight', val);
+                            }}
+                        />
+                        <Button variant="outline-secondary" size="sm" onClick={() => updateParam('speedOfLight', speedOfLight(units))}>
+                            Physical
+                        </Button>
+                    </div>
+                    <small>
+                        The speed of light in simulation units, {speedOfLight(units).toFixed(0)} for this body. A lower value
+                        exaggerates the relativistic precession so it can be seen next to the multipole one; set the zonal
+                        harmonics to zero for relativity alone.
+                    </small>
+                </>
+            )}
+            <Form.Check
+                type="checkbox"
+                id="atmospheric-drag"
+                className="mt-2"
+                label="Atmospheric drag (exponential atmosphere turning with the attractor)"
+                checked={drag !== null}
+                onChange={e => updateParam('drag', e.target.checked
+                    ? { density: 1, scaleHeight: 0.1 * simParams.attractorSize, ballisticCoefficient: 100 }
+                    : null)}
+            />
+            {drag !== null && (
+                <>
+                    <NumberField
+                        label="ρ₀"
+                        value={drag.density}
+                        validate={val => val >= 0 ? null : 'The density must not be negative'}
+                        onCommit={density => updateParam('drag', { ...drag, density })}
+                    />
+                    <NumberField
+                        label="H"
+                        value={drag.scaleHeight}
+                        validate={val => val > 0 ? null : 'The scale height must be positive'}
+                        onCommit={scaleHeight => updateParam('drag', { ...drag, scaleHeight })}
+                    />
+                    <NumberField
+                        label="β"
+                        value={drag.ballisticCoefficient}
+                        validate={val => val > 0 ? null : 'The ballistic coefficient must be positive'}
+                        onCommit={ballisticCoefficient => updateParam('drag', { ...drag, ballisticCoefficient })}
+                    />
+                    <small>
+                        Density ρ₀ at r = R falling off over the scale height H, and ballistic coefficient
+                        β = m / C<sub>D</sub>A. Only ρ₀ / β = {(drag.density / drag.ballisticCoefficient).toExponential(3)} per
+                        length unit matters
+                        {simParams.body !== THESIS_BODY_ID && `, ${(drag.density / drag.ballisticCoefficient / units.length).toExponential(3)} per metre`}.
+                        A run that reaches r = R has re-entered.
+                    </small>
+                </>
+            )}
+            <Form.Check
+                type="checkbox"
+                id="constant-thrust"
+                className="mt-2"
+                label="Constant thrust"
+                checked={thrust !== null}
+                onChange={e => updateParam('thrust', e.target.checked ? { acceleration: 0.1, direction: 'velocity' } : null)}
             />
+            {thrust !== null && (
+                <>
+                    <NumberField
+                        label="a"
+                        value={thrust.acceleration}
+                        onCommit={acceleration => updateParam('thrust', { ...thrust, acceleration })}
+                    />
+                    <Form.Select
+                        size="sm"
+                        value={thrust.direction}
+                        onChange={e => updateParam('thrust', { ...thrust, direction: e.target.value as ThrustDirection })}
+                    >
+                        {(Object.keys(THRUST_DIRECTION_LABELS) as ThrustDirection[]).map(direction => (
+                            <option key={direction} value={direction}>{THRUST_DIRECTION_LABELS[direction]}</option>
+                        ))}
+                    </Form.Select>
+                    <small>Acceleration in simulation units; a negative one points the other way, e.g. retrograde.</small>
+                </>
+            )}
             <div style={{ display: 'flex', justifyContent: 'space-between' }}>
                 {(() => {
                     const distance = Math.sqrt(
@@ -169,77 +462,18 @@ export default function UserInterface(
                 })()}
             </div>
             
-            <Form.Label>x: {simParams.initialPosition.x}</Form.Label>
-            <br />
-            <Form.Range 
-                value={simParams.initialPosition.x} 
-                min={-10} 
-                max={10} 
-                step={1} 
-                onChange={e => {
-                    const val = parseFloat(e.target.value);
-                    updateVec3('initialPosition', 'x', val);
+            <InitialConditions
+                simParams={simParams}
+                setState={(initialPosition, initialVelocity) => {
+                    setSimParams(prev => ({ ...prev, initialPosition, initialVelocity }));
+                    setCalcEnergy(prevEnergy => prevEnergy);
                 }}
             />
-            <br />
-            
-            <Form.Label>y: {simParams.initialPosition.y}</Form.Label>
-            <br />
-            <Form.Range 
-                value={simParams.initialPosition.y} 
-                min={-10} 
-                max={10} 
-                step={1} 
-                onChange={e => {
-                    const val = parseFloat(e.target.value);
-                    updateVec3('initialPosition', 'y', val);
-                }}
-            />
-            <br />
-            <Form.Label>z: {simParams.initialPosition.z}</Form.Label>
-            <br />
-            <Form.Range 
-                value={simParams.initialPosition.z} 
-                min={-10} 
-                max={10} 
-                step={1} 
-                onChange={e => {
-                    const val = parseFloat(e.target.value);
-                    updateVec3('initialPosition', 'z', val);
-                }}
-            />
-            <br />
 
-            <Form.Label>vx: {simParams.initialVelocity.x}</Form.Label>
-            <br />
-            <Form.Range 
-                value={simParams.initialVelocity.x} 
-                min={-10} 
-                max={10} 
-                step={1} 
-                onChange={e => updateVec3('initialVelocity', 'x', parseFloat(e.target.value))} 
-            />
-            <br />
-            <Form.Label>vy: {simParams.initialVelocity.y}</Form.Label>
-            <br />
-            <Form.Range 
-                value={simParams.initialVelocity.y} 
-                min={-10} 
-                max={10} 
-                step={1} 
-                onChange={e => updateVec3('initialVelocity', 'y', parseFloat(e.target.value))} 
+            <PerturbersEditor
+                perturbers={simParams.perturbers}
+                onChange={perturbers => updateParam('perturbers', perturbers)}
             />
-            <br />
-            <Form.Label>vz: {simParams.initialVelocity.z}</Form.Label>
-            <br />
-            <Form.Range 
-                value={simParams.initialVelocity.z} 
-                min={-10} 
-                max={10} 
-                step={1} 
-                onChange={e => updateVec3('initialVelocity', 'z', parseFloat(e.target.value))} 
-            />
-            <br />
 
             </>
 
@@ -0,0 +1,27 @@
+import { compareIntegrators, roundTrip } from "./validation";
+import { precessionBudget } from "./precession";
+import type { AnalysisKind, AnalysisRequest, AnalysisResults, AnalysisWorkerRequest, AnalysisWorkerResponse } from "./types";
+
+// Runs one analysis per message; cancelled by terminating the worker.
+const post = (message: AnalysisWorkerResponse) => self.postMessage(message);
+
+function analyse(request: AnalysisRequest, onProgress: (fraction: number) => void): AnalysisResults[AnalysisKind] {
+    switch (request.kind) {
+        case 'compare':
+            return compareIntegrators(request.params, onProgress);
+        case 'round-trip':
+            return roundTrip(request.params, onProgress);
+        case 'precession':
+            return precessionBudget(request.params, request.c, onProgress);
+    }
+}
+
+self.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+    const { id, request } = event.data;
+    try {
+        const result = analyse(request, fraction => post({ type: 'progress', id, fraction }));
+        post({ type: 'result', id, result });
+    } catch (error) {
+        post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+    }
+};
@@ -0,0 +1,98 @@
+import type { Vec3, ConservedSeries } from "./types";
+
+// Computes energy and angular momentum per unit mass at every step of an
+// inertial-frame trajectory, and the Jacobi constant for an attractor spinning
+// at spinRate about z. The energy the non-conservative forces take out is
+// their power integrated by the trapezoidal rule between output points.
+export function conservedQuantities(
+    times: number[], positions: Vec3[], velocities: Vec3[],
+    potential: (pos: Vec3, t: number) => number,
+    spinRate: number = 0,
+    velocityTerms?: (pos: Vec3, vel: Vec3) => number, // energy terms beyond v²/2, e.g. post-Newtonian
+    power?: (pos: Vec3, vel: Vec3) => number // rate of work of drag and thrust in the co-rotating frame
+): ConservedSeries {
+    const n = Math.min(times.length, positions.length, velocities.length);
+    const series: ConservedSeries = {
+        t: new Array(n),
+        energy: new Array(n),
+        Lx: new Array(n),
+        Ly: new Array(n),
+        Lz: new Array(n),
+        L: new Array(n),
+        jacobi: new Array(n),
+        dissipated: new Array(n)
+    };
+
+    let previousPower = 0;
+
+    for (let i = 0; i < n; i++) {
+        const p = positions[i];
+        const v = velocities[i];
+
+        const Lx = p.y * v.z - p.z * v.y;
+        const Ly = p.z * v.x - p.x * v.z;
+        const Lz = p.x * v.y - p.y * v.x;
+
+        series.t[i] = times[i];
+        series.energy[i] = 0.5 * (v.x * v.x + v.y * v.y + v.z * v.z) + potential(p, times[i]) + (velocityTerms?.(p, v) ?? 0);
+        series.Lx[i] = Lx;
+        series.Ly[i] = Ly;
+        series.Lz[i] = Lz;
+        series.L[i] = Math.sqrt(Lx * Lx + Ly * Ly + Lz * Lz);
+        series.jacobi[i] = series.energy[i] - spinRate * Lz;
+
+        const P = power?.(p, v) ?? 0;
+        series.dissipated[i] = i === 0 ? 0 : series.dissipated[i - 1] - 0.5 * (previousPower + P) * (times[i] - times[i - 1]);
+        previousPower = P;
+    }
+
+    return series;
+}
+
+// (q - q0) / scale, falling back to the absolute change if the scale is zero
+export function relativeDrift(values: number[], scale: number = Math.abs(values[0] ?? 0)): number[] {
+    const q0 = values[0] ?? 0;
+    const s = scale > 0 ? scale : 1;
+    return values.map(q => (q - q0) / s);
+}
+
+export function maxAbs(values: number[]): number {
+    return values.reduce((acc, q) => Math.max(acc, Math.abs(q)), 0);
+}
+
+// |r_a(t) - r_b(t)| at the times of run a, with run b linearly interpolated;
+// stops where either run ends
+export function separation(
+    timesA: number[], positionsA: Vec3[],
+    timesB: number[], positionsB: Vec3[]
+): { t: number[], distance: number[] } {
+    const t: number[] = [];
+    const distance: number[] = [];
+    const nB = Math.min(timesB.length, positionsB.length);
+    if (nB === 0) return { t, distance };
+    // a backward run is interpolated in increasing time like any other
+    if (timesB[nB - 1] < timesB[0]) {
+        timesB = timesB.slice(0, nB).reverse();
+        positionsB = positionsB.slice(0, nB).reverse();
+    }
+
+    let j = 0;
+    for (let i = 0; i < Math.min(timesA.length, positionsA.length); i++) {
+        const ti = timesA[i];
+        if (ti < timesB[0] || ti > timesB[nB - 1]) continue;
+        while (j < nB - 2 && timesB[j + 1] < ti) j++;
+
+        const j1 = Math.min(j + 1, nB - 1);
+        const span = timesB[j1] - timesB[j];
+        const w = span > 0 ? (ti - timesB[j]) / span : 0;
+        const b = positionsB[j];
+        const b1 = positionsB[j1];
+        const dx = positionsA[i].x - (b.x + w * (b1.x - b.x));
+        const dy = positionsA[i].y - (b.y + w * (b1.y - b.y));
+        const dz = positionsA[i].z - (b.z + w * (b1.z - b.z));
+
+        t.push(ti);
+        distance.push(Math.sqrt(dx * dx + dy * dy + dz * dz));
+    }
+    return { t, distance };
+}
@@ -0,0 +1,57 @@
+import type { Vec3, Drag, Thrust, ThrustDirection } from "./types";
+
+// Non-conservative forces on the orbiting body: drag in an exponential
+// atmosphere that co-rotates with the attractor, and a constant thrust.
+// Velocities are inertial, in axes that may have turned about z.
+
+export const THRUST_DIRECTION_LABELS: Record<ThrustDirection, string> = {
+    velocity: 'Along the velocity',
+    radial: 'Radially outwards',
+    normal: 'Along the orbit normal'
+};
+
+const dot = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
+const norm = (vec: Vec3) => Math.sqrt(dot(vec, vec));
+
+// Velocity of the body through an atmosphere turning with the attractor at spinRate, v - Ω × r.
+export const airVelocity = (pos: Vec3, vel: Vec3, spinRate: number): Vec3 =>
+    ({ x: vel.x + spinRate * pos.y, y: vel.y - spinRate * pos.x, z: vel.z });
+
+// ρ₀ exp(-(r - R) / H); the altitude is measured from the sphere r = R whatever the attractor's shape
+export const atmosphericDensity = (pos: Vec3, attractorRadius: number, drag: Drag): number =>
+    drag.density * Math.exp(-(norm(pos) - attractorRadius) / drag.scaleHeight);
+
+// -½ ρ |v_rel| v_rel / β, against the motion through the air
+export function dragAcceleration(pos: Vec3, vel: Vec3, attractorRadius: number, spinRate: number, drag: Drag): Vec3 {
+    const air = airVelocity(pos, vel, spinRate);
+    const k = -0.5 * atmosphericDensity(pos, attractorRadius, drag) * norm(air) / drag.ballisticCoefficient;
+    return { x: k * air.x, y: k * air.y, z: k * air.z };
+}
+
+// the thrust's direction at a state; zero where it is undefined, e.g. a purely radial velocity for 'normal'
+function thrustDirection(pos: Vec3, vel: Vec3, thrust: Thrust): Vec3 {
+    const dir = thrust.direction === 'velocity'
+        ? vel
+        : thrust.direction === 'radial'
+            ? pos
+            : { x: pos.y * vel.z - pos.z * vel.y, y: pos.z * vel.x - pos.x * vel.z, z: pos.x * vel.y - pos.y * vel.x };
+    const len = norm(dir);
+    return len > 0 ? { x: dir.x / len, y: dir.y / len, z: dir.z / len } : { x: 0, y: 0, z: 0 };
+}
+
+export function thrustAcceleration(pos: Vec3, vel: Vec3, thrust: Thrust): Vec3 {
+    const dir = thrustDirection(pos, vel, thrust);
+    return { x: thrust.acceleration * dir.x, y: thrust.acceleration * dir.y, z: thrust.acceleration * dir.z };
+}
+
+// The sum of the drag and the thrust, or null with neither.
+export function dissipativeAcceleration(
+    attractorRadius: number, spinRate: number, drag: Drag | null, thrust: Thrust | null
+): ((pos: Vec3, vel: Vec3) => Vec3) | null {
+    if (drag === null && thrust === null) return null;
+    return (pos, vel) => {
+        const a = drag ? dragAcceleration(pos, vel, attractorRadius, spinRate, drag) : { x: 0, y: 0, z: 0 };
+        const b = thrust ? thrustAcceleration(pos, vel, thrust) : { x: 0, y: 0, z: 0 };
+        return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+    };
+}
@@ -0,0 +1,169 @@
+import type { Vec3, OrbitalElements } from "./types";
+
+// below this e or sin(i) the apsides or the node are taken as undefined
+const DEGENERATE_TOL = 1e-10;
+
+const dot = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
+const cross = (a: Vec3, b: Vec3): Vec3 => ({
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x
+});
+const norm = (a: Vec3) => Math.sqrt(dot(a, a));
+const wrap2Pi = (angle: number) => ((angle % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+
+// Osculating Keplerian elements of a state about a point mass GM. Angles are in
+// radians; for equatorial orbits Ω is set to 0 and ω is measured from the x axis,
+// and for circular orbits ω is set to 0 and the anomaly is measured from the node.
+export function osculatingElements(pos: Vec3, vel: Vec3, GM: number): OrbitalElements {
+    const r = norm(pos);
+    const v2 = dot(vel, vel);
+    const h = cross(pos, vel);
+    const hmag = norm(h);
+
+    const energy = v2 / 2 - GM / r;
+    const a = -GM / (2 * energy);
+
+    const vxh = cross(vel, h);
+    const eVec = {
+        x: vxh.x / GM - pos.x / r,
+        y: vxh.y / GM - pos.y / r,
+        z: vxh.z / GM - pos.z / r
+    };
+    const e = norm(eVec);
+
+    const i = Math.acos(Math.max(-1, Math.min(1, h.z / hmag)));
+
+    // node vector, z × h
+    const node = { x: -h.y, y: h.x, z: 0 };
+    const equatorial = norm(node) <= DEGENERATE_TOL * hmag;
+    const circular = e <= DEGENERATE_TOL;
+
+    const hHat = { x: h.x / hmag, y: h.y / hmag, z: h.z / hmag };
+    const xAxis = { x: 1, y: 0, z: 0 };
+    const reference = equatorial ? xAxis : node;
+    const signedAngle = (from: Vec3, to: Vec3) => Math.atan2(dot(cross(from, to), hHat), dot(from, to));
+
+    const Omega = equatorial ? 0 : wrap2Pi(Math.atan2(node.y, node.x));
+    const omega = circular ? 0 : wrap2Pi(signedAngle(reference, eVec));
+    const nu = wrap2Pi(signedAngle(circular ? reference : eVec, pos));
+
+    let M: number;
+    if (e < 1) {
+        const E = 2 * Math.atan2(Math.sqrt(1 - e) * Math.sin(nu / 2), Math.sqrt(1 + e) * Math.cos(nu / 2));
+        M = wrap2Pi(E - e * Math.sin(E));
+    } else if (e > 1) {
+        const F = 2 * Math.atanh(Math.sqrt((e - 1) / (e + 1)) * Math.tan(nu / 2));
+        M = e * Math.sinh(F) - F;
+    } else {
+        M = NaN;
+    }
+
+    return { a, e, i, Omega, omega, M, nu, equatorial, circular };
+}
+
+export function elementSeries(positions: Vec3[], velocities: Vec3[], GM: number): OrbitalElements[] {
+    const n = Math.min(positions.length, velocities.length);
+    const out: OrbitalElements[] = new Array(n);
+    for (let k = 0; k < n; k++) {
+        out[k] = osculatingElements(positions[k], velocities[k], GM);
+    }
+    return out;
+}
+
+// removes the 2π jumps from an angle series
+export function unwrapAngles(angles: number[]): number[] {
+    const out: number[] = new Array(angles.length);
+    let offset = 0;
+    for (let k = 0; k < angles.length; k++) {
+        if (k > 0) {
+            const jump = angles[k] - angles[k - 1];
+            if (jump > Math.PI) offset -= 2 * Math.PI;
+            else if (jump < -Math.PI) offset += 2 * Math.PI;
+        }
+        out[k] = angles[k] + offset;
+    }
+    return out;
+}
+
+// least-squares slope of an angle against time, NaN if there are too few finite points
+export function fitSecularRate(times: number[], angles: number[]): number {
+    const unwrapped = unwrapAngles(angles);
+    let n = 0, st = 0, sy = 0, stt = 0, sty = 0;
+    for (let k = 0; k < Math.min(times.length, unwrapped.length); k++) {
+        const t = times[k];
+        const y = unwrapped[k];
+        if (!Number.isFinite(t) || !Number.isFinite(y)) continue;
+        n++;
+        st += t;
+        sy += y;
+        stt += t * t;
+        sty += t * y;
+    }
+    const denom = n * stt - st * st;
+    if (n < 3 || denom === 0) return NaN;
+    return (n * sty - st * sy) / denom;
+}
+
+// First-order secular J2 rates (rad per time unit) for a bound orbit
+// with mean elements a, e, i about a body of radius R.
+export function j2PrecessionRates(a: number, e: number, i: number, GM: number, R: number, J2: number): { nodal: number, apsidal: number } {
+    if (!(a > 0) || !(e < 1)) {
+        return { nodal: NaN, apsidal: NaN };
+    }
+    const n = Math.sqrt(GM / a ** 3);
+    const p = a * (1 - e * e);
+    const k = n * J2 * (R / p) ** 2;
+    const cosi = Math.cos(i);
+    return {
+        nodal: -1.5 * k * cosi,
+        apsidal: 0.75 * k * (5 * cosi * cosi - 1)
+    };
+}
+
+// Cartesian state of a Keplerian orbit about a point mass GM, the inverse of
+// osculatingElements. Angles are in radians. Throws for elements that do not
+// describe a reachable point on an ellipse or hyperbola.
+export function elementsToState(
+    a: number, e: number, i: number, Omega: number, omega: number, nu: number, GM: number
+): { position: Vec3, velocity: Vec3 } {
+    if (![a, e, i, Omega, omega, nu].every(Number.isFinite)) {
+        throw new Error("All elements must be finite numbers");
+    }
+    if (e < 0) {
+        throw new Error("e must not be negative");
+    }
+    if (Math.abs(e - 1) <= DEGENERATE_TOL) {
+        throw new Error("Parabolic orbits (e = 1) are not supported");
+    }
+    if (e < 1 && !(a > 0)) {
+        throw new Error("a must be positive for an ellipse (e < 1)");
+    }
+    if (e > 1 && !(a < 0)) {
+        throw new Error("a must be negative for a hyperbola (e > 1)");
+    }
+    const p = a * (1 - e * e);
+    const denom = 1 + e * Math.cos(nu);
+    if (!(denom > DEGENERATE_TOL)) {
+        throw new Error(`ν lies outside the hyperbola's asymptotes (|ν| < ${(Math.acos(-1 / e) * 180 / Math.PI).toFixed(2)}°)`);
+    }
+
+    // perifocal frame, then rotate by ω, i and Ω
+    const r = p / denom;
+    const s = Math.sqrt(GM / p);
+    const perifocalPos = { x: r * Math.cos(nu), y: r * Math.sin(nu) };
+    const perifocalVel = { x: -s * Math.sin(nu), y: s * (e + Math.cos(nu)) };
+
+    const cO = Math.cos(Omega), sO = Math.sin(Omega);
+    const cw = Math.cos(omega), sw = Math.sin(omega);
+    const ci = Math.cos(i), si = Math.sin(i);
+    const P = { x: cO * cw - sO * sw * ci, y: sO * cw + cO * sw * ci, z: sw * si };
+    const Q = { x: -cO * sw - sO * cw * ci, y: -sO * sw + cO * cw * ci, z: cw * si };
+    const rotate = (u: { x: number, y: number }): Vec3 => ({
+        x: u.x * P.x + u.y * Q.x,
+        y: u.x * P.y + u.y * Q.y,
+        z: u.x * P.z + u.y * Q.z
+    });
+
+    return { position: rotate(perifocalPos), velocity: rotate(perifocalVel) };
+}
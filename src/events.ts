@@ -0,0 +1,112 @@
+import type { Vec3, OrbitEvent, OrbitEventKind } from "./types";
+import { rk4 } from "./integrators";
+import type { AccelerationFn } from "./integrators";
+
+// events are located to within this much time
+export const EVENT_TIME_TOLERANCE = 1e-9;
+
+export const EVENT_LABELS: Record<OrbitEventKind, string> = {
+    'impact': 'Impact',
+    'periapsis': 'Periapsis',
+    'apoapsis': 'Apoapsis',
+    'ascending-node': 'Ascending node',
+    'descending-node': 'Descending node'
+};
+
+// how each kind is marked on the plots
+export const EVENT_MARKERS: Record<OrbitEventKind, { color: string, symbol: 'x' | 'diamond' | 'diamond-open' | 'square' | 'square-open' }> = {
+    'impact': { color: 'white', symbol: 'x' },
+    'periapsis': { color: 'cyan', symbol: 'diamond' },
+    'apoapsis': { color: 'cyan', symbol: 'diamond-open' },
+    'ascending-node': { color: 'lime', symbol: 'square' },
+    'descending-node': { color: 'lime', symbol: 'square-open' }
+};
+
+interface EventFunction {
+    // a root of g marks the event
+    g: (pos: Vec3, vel: Vec3) => number;
+    rising?: OrbitEventKind; // g goes from negative to positive
+    falling?: OrbitEventKind; // g goes from positive to negative
+}
+
+const eventFunctions = (radius: number): EventFunction[] => [
+    {
+        g: pos => Math.sqrt(pos.x * pos.x + pos.y * pos.y + pos.z * pos.z) - radius,
+        falling: 'impact'
+    },
+    {
+        // radial velocity, r·v
+        g: (pos, vel) => pos.x * vel.x + pos.y * vel.y + pos.z * vel.z,
+        rising: 'periapsis',
+        falling: 'apoapsis'
+    },
+    {
+        g: pos => pos.z,
+        rising: 'ascending-node',
+        falling: 'descending-node'
+    }
+];
+
+// Bisects on the length of a single RK4 step taken from the start of the
+// interval, so the event is found to the tolerance whatever the grid spacing.
+function locate(
+    g: EventFunction["g"], accel: AccelerationFn,
+    t0: number, pos0: Vec3, vel0: Vec3, dt: number, g0: number,
+    tolerance: number
+): { time: number, position: Vec3, velocity: Vec3 } {
+    let lo = 0;
+    let hi = dt;
+    let state = { pos: pos0, vel: vel0 };
+    while (Math.abs(hi - lo) > tolerance) {
+        const mid = (lo + hi) / 2;
+        state = rk4(accel, t0, pos0, vel0, mid);
+        if (Math.sign(g(state.pos, state.vel)) === Math.sign(g0)) {
+            lo = mid;
+        } else {
+            hi = mid;
+        }
+    }
+    state = rk4(accel, t0, pos0, vel0, hi);
+    return { time: t0 + hi, position: state.pos, velocity: state.vel };
+}
+
+// Finds impact, apsis and node events between consecutive steps of a trajectory,
+// in the order the trajectory passes them.
+export function detectEvents(
+    times: number[], positions: Vec3[], velocities: Vec3[],
+    accel: AccelerationFn, radius: number,
+    tolerance: number = EVENT_TIME_TOLERANCE
+): OrbitEvent[] {
+    const events: OrbitEvent[] = [];
+    const functions = eventFunctions(radius);
+    const n = Math.min(times.length, positions.length, velocities.length);
+    if (n < 2) return events;
+
+    let previous = functions.map(f => f.g(positions[0], velocities[0]));
+
+    for (let i = 0; i < n - 1; i++) {
+        const current = functions.map(f => f.g(positions[i + 1], velocities[i + 1]));
+        const found: OrbitEvent[] = [];
+
+        functions.forEach((f, k) => {
+            const g0 = previous[k];
+            const g1 = current[k];
+            const dt = times[i + 1] - times[i];
+            const up = g0 < 0 && g1 >= 0;
+            const down = g0 > 0 && g1 <= 0;
+            // backward in time the orbit passes apses and nodes the other way round;
+            // reaching the surface is an impact either way
+            const reversed = dt < 0 && f.rising !== undefined;
+            const kind = up ? (reversed ? f.falling : f.rising) : down ? (reversed ? f.rising : f.falling) : undefined;
+            if (!kind) return;
+
+            found.push({ kind, ...locate(f.g, accel, times[i], positions[i], velocities[i], dt, g0, tolerance) });
+        });
+
+        found.sort((a, b) => (a.time - b.time) * Math.sign(times[i + 1] - times[i]));
+        events.push(...found);
+        previous = current;
+    }
+
+    return events;
+}
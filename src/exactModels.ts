@@ -0,0 +1,141 @@
+import type { Vec3, ForceModel } from "./types";
+import { zonalAcceleration } from "./harmonics";
+
+// Closed-form potentials of two bodies the zonal expansion approximates: a thin
+// uniform ring of radius R in the z = 0 plane, and a homogeneous oblate spheroid
+// with equatorial radius R and polar radius R (1 - f). Both have mass M.
+
+export const FORCE_MODEL_LABELS: Record<ForceModel, string> = {
+    zonal: 'Multipole expansion (J_n)',
+    ring: 'Exact thin ring',
+    spheroid: 'Exact homogeneous spheroid'
+};
+
+// complete elliptic integrals K(m) and E(m) with parameter m = k², by the AGM
+export function ellipticKE(m: number): { K: number, E: number } {
+    let a = 1;
+    let b = Math.sqrt(1 - m);
+    let c = Math.sqrt(m);
+    let sum = 0.5 * c * c;
+    let power = 0.5;
+    for (let n = 0; n < 40 && Math.abs(c) > 1e-16 * a; n++) {
+        const an = (a + b) / 2;
+        c = (a - b) / 2;
+        b = Math.sqrt(a * b);
+        a = an;
+        power *= 2;
+        sum += power * c * c;
+    }
+    const K = Math.PI / (2 * a);
+    return { K, E: K * (1 - sum) };
+}
+
+const cylindrical = (pos: Vec3) => ({ rho: Math.sqrt(pos.x * pos.x + pos.y * pos.y), z: pos.z });
+
+// turns (a_ρ, a_z) back into Cartesian components
+const fromCylindrical = (pos: Vec3, rho: number, aRho: number, aZ: number): Vec3 => rho > 0
+    ? { x: aRho * pos.x / rho, y: aRho * pos.y / rho, z: aZ }
+    : { x: 0, y: 0, z: aZ };
+
+export function ringPotential(pos: Vec3, GM: number, radius: number): number {
+    const { rho, z } = cylindrical(pos);
+    const Q = (radius + rho) ** 2 + z * z;
+    const { K } = ellipticKE(4 * radius * rho / Q);
+    return -2 * GM * K / (Math.PI * Math.sqrt(Q));
+}
+
+export function ringAcceleration(pos: Vec3, GM: number, radius: number): Vec3 {
+    const { rho, z } = cylindrical(pos);
+    const Q = (radius + rho) ** 2 + z * z;
+    const D = (radius - rho) ** 2 + z * z;
+    const { K, E } = ellipticKE(4 * radius * rho / Q);
+    const sqrtQ = Math.sqrt(Q);
+
+    const aZ = -2 * GM * z * E / (Math.PI * D * sqrtQ);
+    // the bracket vanishes like ρ on the axis, where a_ρ is zero by symmetry
+    const aRho = rho > 1e-12 * radius
+        ? -GM / (Math.PI * rho * sqrtQ) * (K - E * (radius * radius - rho * rho + z * z) / D)
+        : 0;
+    return fromCylindrical(pos, rho, aRho, aZ);
+}
+
+// The exterior potential of a homogeneous ellipsoid needs the outer ellipsoidal
+// coordinate λ of the point, the larger root of ρ²/(a² + λ) + z²/(c² + λ) = 1;
+// inside the body λ = 0 gives the interior potential from the same integrals.
+function spheroidIntegrals(rho: number, z: number, a: number, c: number) {
+    const B = a * a + c * c - rho * rho - z * z;
+    const C = a * a * c * c - rho * rho * c * c - z * z * a * a;
+    const lambda = Math.max(0, (-B + Math.sqrt(B * B - 4 * C)) / 2);
+
+    const h = Math.sqrt(a * a - c * c); // focal distance
+    const s = Math.sqrt(c * c + lambda);
+    const angle = Math.atan2(h, s);
+    return {
+        I0: 2 * angle / h,
+        Irho: angle / h ** 3 - s / (h * h * (s * s + h * h)),
+        Iz: 2 / (h * h) * (1 / s - angle / h)
+    };
+}
+
+// below this flattening the spheroid is treated as a sphere, which acts as a point mass outside
+const SPHERE_TOL = 1e-6;
+
+export function spheroidPotential(pos: Vec3, GM: number, radius: number, flattening: number): number {
+    const { rho, z } = cylindrical(pos);
+    if (flattening < SPHERE_TOL) {
+        const r = Math.sqrt(rho * rho + z * z);
+        return r >= radius ? -GM / r : -GM * (3 * radius * radius - r * r) / (2 * radius ** 3);
+    }
+    const { I0, Irho, Iz } = spheroidIntegrals(rho, z, radius, radius * (1 - flattening));
+    return -0.75 * GM * (I0 - rho * rho * Irho - z * z * Iz);
+}
+
+export function spheroidAcceleration(pos: Vec3, GM: number, radius: number, flattening: number): Vec3 {
+    const { rho, z } = cylindrical(pos);
+    if (flattening < SPHERE_TOL) {
+        const r = Math.sqrt(rho * rho + z * z);
+        const k = r >= radius ? -GM / r ** 3 : -GM / radius ** 3;
+        return { x: k * pos.x, y: k * pos.y, z: k * pos.z };
+    }
+    // the terms from ∂λ vanish because the integrand is zero on the boundary
+    const { Irho, Iz } = spheroidIntegrals(rho, z, radius, radius * (1 - flattening));
+    return { x: -1.5 * GM * Irho * pos.x, y: -1.5 * GM * Irho * pos.y, z: -1.5 * GM * Iz * pos.z };
+}
+
+// The zonal coefficients J2, J3, ... of an exact model up to the given degree, so
+// it can be run again with its multipole expansion truncated there. The ring has
+// J_2n = -P_2n(0); the spheroid J_2n = (-1)^(n+1) 3 e^2n / ((2n + 1)(2n + 3)).
+export function equivalentZonal(model: ForceModel, flattening: number, maxDegree: number = 2): number[] {
+    const J: number[] = [];
+    const e2 = 1 - (1 - flattening) ** 2;
+    let P0 = 1; // P_2n(0)
+    for (let degree = 2; degree <= maxDegree; degree++) {
+        if (degree % 2 === 1) {
+            J.push(0);
+            continue;
+        }
+        const n = degree / 2;
+        P0 *= -(2 * n - 1) / (2 * n);
+        if (model === 'ring') J.push(-P0);
+        else if (model === 'spheroid') J.push((n % 2 === 1 ? 3 : -3) * e2 ** n / ((2 * n + 1) * (2 * n + 3)));
+        else J.push(0);
+    }
+    return J;
+}
+
+// Relative size of the force error made by truncating an exact model's
+// expansion at maxDegree, |a_truncated - a_exact| / |a_exact|, at each position.
+// The series only converges for r > R around the ring and r > R e around the
+// spheroid, and the error of each truncation grows like (R / r)^(maxDegree + 2)
+// on the way in.
+export function truncationError(positions: Vec3[], GM: number, radius: number, model: ForceModel, flattening: number, maxDegree: number): number[] {
+    const zonal = equivalentZonal(model, flattening, maxDegree);
+    return positions.map(pos => {
+        const exact = model === 'ring'
+            ? ringAcceleration(pos, GM, radius)
+            : spheroidAcceleration(pos, GM, radius, flattening);
+        const truncated = zonalAcceleration(pos, GM, radius, zonal);
+        const diff = Math.hypot(truncated.x - exact.x, truncated.y - exact.y, truncated.z - exact.z);
+        return diff / Math.hypot(exact.x, exact.y, exact.z);
+    });
+}
@@ -0,0 +1,351 @@
+import type { Vec3, SimulationParams, OrbitResult, IntegratorOptions, Tesseral, ReferenceFrame, ForceModel, Perturber, Drag, Thrust, ThrustDirection, RunSummary } from "./types";
+import { defaultIntegratorOptions, INTEGRATOR_METHODS } from "./integrators";
+import { THESIS_ZONAL } from "./harmonics";
+import { BODIES, THESIS_BODY_ID, findBody, codeUnits } from "./units";
+import { FORCE_MODEL_LABELS } from "./exactModels";
+import { maxAbs, relativeDrift } from "./diagnostics";
+import { DEFAULT_TIME_STEP } from "./physics";
+import { THRUST_DIRECTION_LABELS } from "./dissipation";
+
+export const RUN_FILE_FORMAT = "quadrupoles-run";
+export const RUN_FILE_VERSION = 1;
+
+// One row per step: t, x, y, z, vx, vy, vz, energy, in simulation units. The
+// parameters that produced the run and the size of those units go in leading
+// comment lines so the file can be traced back to them.
+export function resultToCsv(params: SimulationParams, result: OrbitResult): string {
+    const units = codeUnits(params.body);
+    const lines = [
+        `# simParams: ${JSON.stringify(params)}`,
+        `# status: ${JSON.stringify(result.status)}`,
+        `# units: length = ${units.length} m, time = ${units.time} s`,
+        "t,x,y,z,vx,vy,vz,energy"
+    ];
+    for (let i = 0; i < result.positions.length; i++) {
+        const p = result.positions[i];
+        const v = result.velocities[i];
+        lines.push([result.times[i], p.x, p.y, p.z, v.x, v.y, v.z, result.conserved.energy[i]].join(","));
+    }
+    return lines.join("\n") + "\n";
+}
+
+export function resultToJson(params: SimulationParams, result: OrbitResult): string {
+    return JSON.stringify({
+        format: RUN_FILE_FORMAT,
+        version: RUN_FILE_VERSION,
+        params,
+        status: result.status,
+        initialEnergy: result.energy,
+        events: result.events,
+        perturbers: result.perturbers.map(track => ({
+            name: track.name,
+            x: track.positions.map(p => p.x),
+            y: track.positions.map(p => p.y),
+            z: track.positions.map(p => p.z)
+        })),
+        trajectory: {
+            t: result.times,
+            x: result.positions.map(p => p.x),
+            y: result.positions.map(p => p.y),
+            z: result.positions.map(p => p.z),
+            vx: result.velocities.map(v => v.x),
+            vy: result.velocities.map(v => v.y),
+            vz: result.velocities.map(v => v.z),
+            energy: result.conserved.energy,
+            dissipated: result.conserved.dissipated
+        }
+    }, null, 2);
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+function readNumber(source: Record<string, unknown>, key: string): number {
+    const value = source[key];
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+        throw new Error(`"${key}" must be a finite number`);
+    }
+    return value;
+}
+
+export function readVec3(source: Record<string, unknown>, key: string): Vec3 {
+    const value = source[key];
+    if (!isRecord(value)) {
+        throw new Error(`"${key}" must be an object with x, y and z`);
+    }
+    return { x: readNumber(value, "x"), y: readNumber(value, "y"), z: readNumber(value, "z") };
+}
+
+function readIntegrator(value: unknown): IntegratorOptions {
+    if (value === undefined) return defaultIntegratorOptions;
+    if (!isRecord(value) || !INTEGRATOR_METHODS.includes(value.method as IntegratorOptions["method"])) {
+        throw new Error(`"integrator.method" must be one of ${INTEGRATOR_METHODS.join(", ")}`);
+    }
+    return {
+        method: value.method as IntegratorOptions["method"],
+        relTol: value.relTol === undefined ? defaultIntegratorOptions.relTol : readNumber(value, "relTol"),
+        absTol: value.absTol === undefined ? defaultIntegratorOptions.absTol : readNumber(value, "absTol")
+    };
+}
+
+function readZonal(value: unknown): number[] {
+    if (value === undefined) return THESIS_ZONAL;
+    if (!Array.isArray(value) || !value.every(J => typeof J === "number" && Number.isFinite(J))) {
+        throw new Error(`"zonal" must be a list of numbers`);
+    }
+    return value;
+}
+
+function readBody(value: unknown): string {
+    if (value === undefined) return THESIS_BODY_ID;
+    if (value !== THESIS_BODY_ID && !BODIES.some(body => body.id === value)) {
+        throw new Error(`"body" must be one of ${[THESIS_BODY_ID, ...BODIES.map(body => body.id)].join(", ")}`);
+    }
+    return value as string;
+}
+
+function readTesseral(value: unknown): Tesseral {
+    if (value === undefined) return { C22: 0, S22: 0 };
+    if (!isRecord(value)) {
+        throw new Error(`"tesseral" must be an object with C22 and S22`);
+    }
+    return { C22: readNumber(value, "C22"), S22: readNumber(value, "S22") };
+}
+
+function readFrame(value: unknown): ReferenceFrame {
+    if (value === undefined) return 'inertial';
+    if (value !== 'inertial' && value !== 'rotating') {
+        throw new Error(`"frame" must be "inertial" or "rotating"`);
+    }
+    return value;
+}
+
+function readTimeStep(source: Record<string, unknown>): number {
+    if (source.timeStep === undefined) return DEFAULT_TIME_STEP;
+    const step = readNumber(source, "timeStep");
+    if (!(step > 0)) {
+        throw new Error(`"timeStep" must be positive; use a negative "finalTime" to integrate backward`);
+    }
+    return step;
+}
+
+function readForceModel(value: unknown): ForceModel {
+    if (value === undefined) return 'zonal';
+    const models = Object.keys(FORCE_MODEL_LABELS);
+    if (typeof value !== "string" || !models.includes(value)) {
+        throw new Error(`"forceModel" must be one of ${models.join(", ")}`);
+    }
+    return value as ForceModel;
+}
+
+function readFlattening(source: Record<string, unknown>): number {
+    if (source.flattening === undefined) return 0;
+    const f = readNumber(source, "flattening");
+    if (f < 0 || f >= 1) {
+        throw new Error(`"flattening" must be at least 0 and less than 1`);
+    }
+    return f;
+}
+
+function readPerturber(value: unknown, index: number): Perturber {
+    if (!isRecord(value)) {
+        throw new Error(`Perturber ${index + 1} must be an object`);
+    }
+    const mass = readNumber(value, "mass");
+    if (mass < 0) {
+        throw new Error(`"mass" of perturber ${index + 1} must not be negative`);
+    }
+    const motion = value.motion ?? 'kepler';
+    if (motion !== 'kepler' && motion !== 'integrated') {
+        throw new Error(`"motion" of perturber ${index + 1} must be "kepler" or "integrated"`);
+    }
+    return {
+        name: typeof value.name === "string" ? value.name : `Perturber ${index + 1}`,
+        mass,
+        position: readVec3(value, "position"),
+        velocity: readVec3(value, "velocity"),
+        motion
+    };
+}
+
+function readPerturbers(value: unknown): Perturber[] {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+        throw new Error(`"perturbers" must be an array`);
+    }
+    return value.map(readPerturber);
+}
+
+function readSpeedOfLight(source: Record<string, unknown>): number | null {
+    if (source.speedOfLight === undefined || source.speedOfLight === null) return null;
+    const c = readNumber(source, "speedOfLight");
+    if (!(c > 0)) {
+        throw new Error(`"speedOfLight" must be positive, or null for Newtonian gravity`);
+    }
+    return c;
+}
+
+function readDrag(value: unknown): Drag | null {
+    if (value === undefined || value === null) return null;
+    if (!isRecord(value)) {
+        throw new Error(`"drag" must be an object with density, scaleHeight and ballisticCoefficient, or null`);
+    }
+    const drag = {
+        density: readNumber(value, "density"),
+        scaleHeight: readNumber(value, "scaleHeight"),
+        ballisticCoefficient: readNumber(value, "ballisticCoefficient")
+    };
+    if (drag.density < 0) {
+        throw new Error(`"drag.density" must not be negative`);
+    }
+    if (!(drag.scaleHeight > 0) || !(drag.ballisticCoefficient > 0)) {
+        throw new Error(`"drag.scaleHeight" and "drag.ballisticCoefficient" must be positive`);
+    }
+    return drag;
+}
+
+function readThrust(value: unknown): Thrust | null {
+    if (value === undefined || value === null) return null;
+    if (!isRecord(value)) {
+        throw new Error(`"thrust" must be an object with acceleration and direction, or null`);
+    }
+    const directions = Object.keys(THRUST_DIRECTION_LABELS);
+    const direction = value.direction ?? 'velocity';
+    if (typeof direction !== "string" || !directions.includes(direction)) {
+        throw new Error(`"thrust.direction" must be one of ${directions.join(", ")}`);
+    }
+    return { acceleration: readNumber(value, "acceleration"), direction: direction as ThrustDirection };
+}
+
+// Validates simulation parameters from untrusted JSON. Fields added after the
+// first version fall back to their defaults.
+export function parseSimulationParams(value: unknown): SimulationParams {
+    if (!isRecord(value)) {
+        throw new Error("Simulation parameters must be an object");
+    }
+    return {
+        attractorSize: readNumber(value, "attractorSize"),
+        finalTime: readNumber(value, "finalTime"),
+        timeStep: readTimeStep(value),
+        initialPosition: readVec3(value, "initialPosition"),
+        initialVelocity: readVec3(value, "initialVelocity"),
+        integrator: readIntegrator(value.integrator),
+        zonal: readZonal(value.zonal),
+        body: readBody(value.body),
+        tesseral: readTesseral(value.tesseral),
+        spinRate: value.spinRate === undefined ? 0 : readNumber(value, "spinRate"),
+        frame: readFrame(value.frame),
+        forceModel: readForceModel(value.forceModel),
+        flattening: readFlattening(value),
+        perturbers: readPerturbers(value.perturbers),
+        speedOfLight: readSpeedOfLight(value),
+        drag: readDrag(value.drag),
+        thrust: readThrust(value.thrust)
+    };
+}
+
+// Reads the parameters back from a file written by resultToJson.
+export function parseRunJson(text: string): SimulationParams {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("The file is not valid JSON");
+    }
+    if (!isRecord(data) || data.format !== RUN_FILE_FORMAT) {
+        throw new Error(`The file is not a ${RUN_FILE_FORMAT} export`);
+    }
+    if (typeof data.version !== "number" || data.version > RUN_FILE_VERSION) {
+        throw new Error(`Unsupported file version ${String(data.version)}`);
+    }
+    return parseSimulationParams(data.params);
+}
+
+// Reads a scenario for a headless run: either bare simulation parameters or a
+// file written by resultToJson.
+export function parseScenarioJson(text: string): SimulationParams {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("The file is not valid JSON");
+    }
+    return isRecord(data) && data.format === RUN_FILE_FORMAT
+        ? parseRunJson(text)
+        : parseSimulationParams(data);
+}
+
+export function resultSummary(result: OrbitResult): RunSummary {
+    const { conserved } = result;
+    const drift = (values: number[]) => values.length > 0 ? maxAbs(relativeDrift(values)) : NaN;
+    return {
+        status: result.status,
+        steps: result.times.length,
+        endTime: result.times[result.times.length - 1] ?? 0,
+        initialEnergy: result.energy,
+        drift: {
+            energy: drift(conserved.energy),
+            Lz: drift(conserved.Lz),
+            jacobi: drift(conserved.jacobi.map((C, i) => C + conserved.dissipated[i]))
+        },
+        events: result.events.map(event => ({ kind: event.kind, time: event.time }))
+    };
+}
+
+// saves text as a file through a temporary link
+export function download(filename: string, content: string, type: string) {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// A standalone page with a rendered image of the plot and the run's metadata.
+export function snapshotHtml(params: SimulationParams, result: OrbitResult, imageDataUrl: string): string {
+    const rows: [string, string][] = [
+        ["Central body", findBody(params.body)?.name ?? "Thesis ring (AU, years)"],
+        ["Attractor size", String(params.attractorSize)],
+        ["Force model", params.forceModel === 'spheroid'
+            ? `${FORCE_MODEL_LABELS.spheroid}, f = ${params.flattening}`
+            : FORCE_MODEL_LABELS[params.forceModel]],
+        ["Zonal harmonics (J2, J3, ...)", params.forceModel === 'zonal' ? params.zonal.join(", ") || "none" : "not used"],
+        ["Tesseral C22, S22", `${params.tesseral.C22}, ${params.tesseral.S22}`],
+        ["Spin rate", `${params.spinRate} (${params.frame} frame)`],
+        ["Final time", `${params.finalTime}${params.finalTime < 0 ? " (backward)" : ""}`],
+        ["Time step", String(params.timeStep)],
+        ["1PN correction", params.speedOfLight === null ? "off" : `c = ${params.speedOfLight}`],
+        ["Atmospheric drag", params.drag === null
+            ? "off"
+            : `ρ₀ = ${params.drag.density}, H = ${params.drag.scaleHeight}, β = ${params.drag.ballisticCoefficient}`],
+        ["Thrust", params.thrust === null ? "off" : `${params.thrust.acceleration} (${params.thrust.direction})`],
+        ["Perturbers", params.perturbers.map(p => `${p.name} (m = ${p.mass}, ${p.motion})`).join(", ") || "none"],
+        ["Initial position", `(${params.initialPosition.x}, ${params.initialPosition.y}, ${params.initialPosition.z})`],
+        ["Initial velocity", `(${params.initialVelocity.x}, ${params.initialVelocity.y}, ${params.initialVelocity.z})`],
+        ["Integrator", params.integrator.method],
+        ["Initial energy", String(result.energy)],
+        ["Termination", result.status.kind],
+        ["Events", String(result.events.length)]
+    ];
+    return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>Orbit snapshot</title>
+<style>body { font-family: sans-serif; margin: 2rem; } td { padding: 0 1rem 0 0; }</style>
+</head>
+<body>
+<h1>Orbit snapshot</h1>
+<img src="${imageDataUrl}" alt="Orbit plot" />
+<table>
+${rows.map(([key, value]) => `<tr><td>${escapeHtml(key)}</td><td>${escapeHtml(value)}</td></tr>`).join("\n")}
+</table>
+<script type="application/json" id="run">${resultToJson(params, result).replace(/<\//g, "<\\/")}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,79 @@
+import type { Vec3 } from "./types";
+
+// The zonal expansion of an axisymmetric body,
+//   Φ = -GM/r [1 - Σ J_n (R/r)^n P_n(z/r)],
+// with J[0] = J2, J[1] = J3, and so on. J2 = 0.5 is a thin ring of radius R,
+// which is the single quadrupole term used in the thesis.
+export const THESIS_ZONAL: number[] = [0.5];
+
+// P_n(u) and P_n'(u) for n = 0..maxDegree
+export function legendre(maxDegree: number, u: number): { P: number[], dP: number[] } {
+    const P = [1, u];
+    const dP = [0, 1];
+    for (let n = 1; n < maxDegree; n++) {
+        P[n + 1] = ((2 * n + 1) * u * P[n] - n * P[n - 1]) / (n + 1);
+        dP[n + 1] = dP[n - 1] + (2 * n + 1) * P[n];
+    }
+    return { P: P.slice(0, maxDegree + 1), dP: dP.slice(0, maxDegree + 1) };
+}
+
+export function zonalPotential(pos: Vec3, GM: number, radius: number, J: number[]): number {
+    const r = Math.sqrt(pos.x**2 + pos.y**2 + pos.z**2);
+    const u = pos.z / r;
+    const { P } = legendre(J.length + 1, u);
+
+    let sum = 0;
+    for (let k = 0; k < J.length; k++) {
+        const n = k + 2;
+        sum += J[k] * (radius / r)**n * P[n];
+    }
+    return -GM / r * (1 - sum);
+}
+
+export function zonalAcceleration(pos: Vec3, GM: number, radius: number, J: number[]): Vec3 {
+    const r2 = pos.x * pos.x + pos.y * pos.y + pos.z * pos.z;
+    const r = Math.sqrt(r2);
+    const r3 = r2 * r;
+    const u = pos.z / r;
+    const { P, dP } = legendre(J.length + 1, u);
+
+    // split -∇Φ into a radial part (along pos) and a part along z from ∂u/∂z
+    let radial = -GM / r3;
+    let axial = 0;
+    for (let k = 0; k < J.length; k++) {
+        const n = k + 2;
+        const c = GM * J[k] * radius**n / r**(n + 1);
+        radial += c * ((n + 1) * P[n] + u * dP[n]) / r2;
+        axial -= c * dP[n] / r;
+    }
+
+    return {
+        x: radial * pos.x,
+        y: radial * pos.y,
+        z: radial * pos.z + axial
+    };
+}
+
+// The degree-2, order-2 tesseral term of a triaxial body in its own frame,
+//   Φ22 = -3 GM R² [C22 (x² - y²) + 2 S22 xy] / r⁵,
+// which makes the equator elliptical. C22 > 0 puts the long axis along x.
+export function tesseralPotential(pos: Vec3, GM: number, radius: number, C22: number, S22: number): number {
+    const r2 = pos.x * pos.x + pos.y * pos.y + pos.z * pos.z;
+    const r5 = r2 * r2 * Math.sqrt(r2);
+    const f = C22 * (pos.x * pos.x - pos.y * pos.y) + 2 * S22 * pos.x * pos.y;
+    return -3 * GM * radius * radius * f / r5;
+}
+
+export function tesseralAcceleration(pos: Vec3, GM: number, radius: number, C22: number, S22: number): Vec3 {
+    const r2 = pos.x * pos.x + pos.y * pos.y + pos.z * pos.z;
+    const r5 = r2 * r2 * Math.sqrt(r2);
+    const f = C22 * (pos.x * pos.x - pos.y * pos.y) + 2 * S22 * pos.x * pos.y;
+    const k = 3 * GM * radius * radius / r5;
+
+    // -∇Φ22 = k [∇f - 5 f pos / r²]
+    return {
+        x: k * (2 * C22 * pos.x + 2 * S22 * pos.y - 5 * f * pos.x / r2),
+        y: k * (-2 * C22 * pos.y + 2 * S22 * pos.x - 5 * f * pos.y / r2),
+        z: k * (-5 * f * pos.z / r2)
+    };
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import type { IntegratorMethod, OrbitResult, SimulationParams } from './types';
+import { runSimulation } from './physics';
+import { roundTrip } from './validation';
+import { PRESETS } from './presets';
+
+// the elongated asteroid, integrated in its rotating frame where the Coriolis term depends on velocity
+const rotating: SimulationParams = { ...PRESETS.find(preset => preset.id === 'elongated-asteroid')!.params, finalTime: 5 };
+
+const withMethod = (params: SimulationParams, method: IntegratorMethod, timeStep: number = params.timeStep): SimulationParams =>
+    ({ ...params, timeStep, integrator: { ...params.integrator, method } });
+
+const positionAt = (result: OrbitResult, t: number) => result.positions[result.times.findIndex(time => Math.abs(time - t) < 1e-9)];
+
+describe('symplectic integrators with a velocity-dependent force', () => {
+    const exact = positionAt(runSimulation({ ...rotating, timeStep: 0.01, integrator: { method: 'rk45', relTol: 1e-13, absTol: 1e-13 } }), 4.8);
+
+    it.each([['leapfrog', 2], ['yoshida', 4]] as [IntegratorMethod, number][])('%s keeps order %i', (method, order) => {
+        const [coarse, fine] = [0.02, 0.01].map(step => {
+            const p = positionAt(runSimulation(withMethod(rotating, method, step)), 4.8);
+            return Math.hypot(p.x - exact.x, p.y - exact.y, p.z - exact.z);
+        });
+        expect(Math.log2(coarse / fine)).toBeCloseTo(order, 1);
+    });
+
+    it.each(['leapfrog', 'yoshida'] as IntegratorMethod[])('%s is time-reversible', method => {
+        const trip = roundTrip(withMethod(rotating, method));
+        expect(trip.status.kind).toBe('completed');
+        expect(trip.positionError).toBeLessThan(1e-10);
+    });
+
+    it('no longer reports a collision for an orbit that stays clear of the attractor', () => {
+        const result = runSimulation(withMethod({ ...rotating, finalTime: 300 }, 'leapfrog', 0.01));
+        expect(result.status.kind).toBe('completed');
+    });
+});
@@ -0,0 +1,272 @@
+import type { Vec3, IntegratorOptions, IntegratorMethod } from "./types";
+
+// acceleration as a function of the current state
+export type AccelerationFn = (t: number, pos: Vec3, vel: Vec3) => Vec3;
+
+// advances one state by dt, returns null if the step could not be taken
+type StepFn = (t: number, pos: Vec3, vel: Vec3, dt: number) => { pos: Vec3, vel: Vec3 } | null;
+
+export const INTEGRATOR_METHODS: IntegratorMethod[] = ['rk2', 'rk4', 'rk45', 'leapfrog', 'yoshida'];
+
+// global order of accuracy in the step size; rk45 is the order of the solution it keeps
+export const INTEGRATOR_ORDERS: Record<IntegratorMethod, number> = {
+    rk2: 2,
+    rk4: 4,
+    rk45: 5,
+    leapfrog: 2,
+    yoshida: 4
+};
+
+export const defaultIntegratorOptions: IntegratorOptions = {
+    method: 'rk2',
+    relTol: 1e-8,
+    absTol: 1e-8
+};
+
+// small vector helpers
+const add = (a: Vec3, b: Vec3, s: number = 1): Vec3 => ({ x: a.x + s * b.x, y: a.y + s * b.y, z: a.z + s * b.z });
+const hypot3 = (vec: Vec3) => Math.sqrt(vec.x * vec.x + vec.y * vec.y + vec.z * vec.z);
+const isFiniteVec = (vec: Vec3) => Number.isFinite(vec.x) && Number.isFinite(vec.y) && Number.isFinite(vec.z);
+
+// Fills t, pos and vel on a fixed output grid of spacing dt, using the same
+// conventions as planetRK2: error = 1 on impact with the attractor,
+// error = 2 if the step failed or the state blew up.
+function integrateFixedGrid(n: number, radius: number, dt: number,
+    t: number[], pos: Vec3[], vel: Vec3[],
+    step: StepFn): { num: number, error: number } {
+
+    if (n <= 1) {
+        return { num: 0, error: 1 };
+    }
+
+    for (let i = 0; i <= n - 2; i++) {
+        const i1 = i + 1;
+
+        const next = step(t[i], pos[i], vel[i], dt);
+        if (next === null || !isFiniteVec(next.pos) || !isFiniteVec(next.vel)) {
+            return { num: i, error: 2 };
+        }
+
+        t[i1] = t[i] + dt;
+        pos[i1] = next.pos;
+        vel[i1] = next.vel;
+
+        // stopping condition
+        if (hypot3(pos[i1]) < radius) {
+            return { num: i1, error: 1 };
+        }
+    }
+
+    return { num: n - 1, error: 0 };
+}
+
+// one classic fourth-order Runge-Kutta step
+export function rk4(accel: AccelerationFn, t: number, pos: Vec3, vel: Vec3, dt: number): { pos: Vec3, vel: Vec3 } {
+    const h2 = dt / 2;
+
+    const k1v = accel(t, pos, vel);
+    const k1x = vel;
+
+    const k2x = add(vel, k1v, h2);
+    const k2v = accel(t + h2, add(pos, k1x, h2), k2x);
+
+    const k3x = add(vel, k2v, h2);
+    const k3v = accel(t + h2, add(pos, k2x, h2), k3x);
+
+    const k4x = add(vel, k3v, dt);
+    const k4v = accel(t + dt, add(pos, k3x, dt), k4x);
+
+    const combine = (a: Vec3, k1: Vec3, k2: Vec3, k3: Vec3, k4: Vec3): Vec3 => ({
+        x: a.x + dt / 6 * (k1.x + 2 * k2.x + 2 * k3.x + k4.x),
+        y: a.y + dt / 6 * (k1.y + 2 * k2.y + 2 * k3.y + k4.y),
+        z: a.z + dt / 6 * (k1.z + 2 * k2.z + 2 * k3.z + k4.z)
+    });
+
+    return {
+        pos: combine(pos, k1x, k2x, k3x, k4x),
+        vel: combine(vel, k1v, k2v, k3v, k4v)
+    };
+}
+
+function rk4Step(accel: AccelerationFn): StepFn {
+    return (t, pos, vel, dt) => rk4(accel, t, pos, vel, dt);
+}
+
+const KICK_TOLERANCE = 1e-13;
+const MAX_KICK_ITERATIONS = 50;
+
+// Solves v' = v + h a(t, pos, v') by fixed-point iteration; null if it does not
+// converge, which happens once h |∂a/∂v| approaches 1.
+function implicitKick(accel: AccelerationFn, t: number, pos: Vec3, vel: Vec3, h: number): Vec3 | null {
+    let next = add(vel, accel(t, pos, vel), h);
+    for (let k = 0; k < MAX_KICK_ITERATIONS; k++) {
+        const guess = add(vel, accel(t, pos, next), h);
+        const change = hypot3(add(guess, next, -1));
+        next = guess;
+        if (!(change > KICK_TOLERANCE * hypot3(next))) return isFiniteVec(next) ? next : null;
+    }
+    return null;
+}
+
+// Kick-drift-kick leapfrog (velocity Verlet), second order and symplectic. A
+// force that depends on velocity, such as the Coriolis term, has its last kick
+// taken at the final velocity, which makes that kick implicit; the step stays
+// time-reversible and second order but is no longer symplectic.
+function leapfrogStep(accel: AccelerationFn, velocityDependent: boolean): StepFn {
+    return (t, pos, vel, dt) => {
+        const a0 = accel(t, pos, vel);
+        const vHalf = add(vel, a0, dt / 2);
+        const newPos = add(pos, vHalf, dt);
+        if (velocityDependent) {
+            const newVel = implicitKick(accel, t + dt, newPos, vHalf, dt / 2);
+            return newVel && { pos: newPos, vel: newVel };
+        }
+        const a1 = accel(t + dt, newPos, vHalf);
+        return { pos: newPos, vel: add(vHalf, a1, dt / 2) };
+    };
+}
+
+// Yoshida's fourth-order composition of three leapfrog steps
+const CBRT2 = Math.cbrt(2);
+const YOSHIDA_W1 = 1 / (2 - CBRT2);
+const YOSHIDA_W0 = -CBRT2 / (2 - CBRT2);
+
+function yoshidaStep(accel: AccelerationFn, velocityDependent: boolean): StepFn {
+    // with velocity-dependent forces, three of the implicit leapfrog steps above
+    if (velocityDependent) {
+        const leapfrog = leapfrogStep(accel, true);
+        return (t, pos, vel, dt) => {
+            let state: { pos: Vec3, vel: Vec3 } | null = { pos, vel };
+            let time = t;
+            for (const w of [YOSHIDA_W1, YOSHIDA_W0, YOSHIDA_W1]) {
+                state = leapfrog(time, state.pos, state.vel, w * dt);
+                if (!state) return null;
+                time += w * dt;
+            }
+            return state;
+        };
+    }
+
+    const c = [YOSHIDA_W1 / 2, (YOSHIDA_W0 + YOSHIDA_W1) / 2, (YOSHIDA_W0 + YOSHIDA_W1) / 2, YOSHIDA_W1 / 2];
+    const d = [YOSHIDA_W1, YOSHIDA_W0, YOSHIDA_W1];
+
+    return (t, pos, vel, dt) => {
+        let p = pos;
+        let v = vel;
+        let time = t;
+        for (let k = 0; k < 3; k++) {
+            p = add(p, v, c[k] * dt);
+            time += c[k] * dt;
+            v = add(v, accel(time, p, v), d[k] * dt);
+        }
+        p = add(p, v, c[3] * dt);
+        return { pos: p, vel: v };
+    };
+}
+
+// Dormand-Prince 5(4) tableau
+const DP_C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const DP_A = [
+    [],
+    [1 / 5],
+    [3 / 40, 9 / 40],
+    [44 / 45, -56 / 15, 32 / 9],
+    [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+    [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+    [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84]
+];
+const DP_B = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0];
+const DP_E = [
+    71 / 57600, 0, -71 / 16695, 71 / 1920, -17253 / 339200, 22 / 525, -1 / 40
+];
+
+const MAX_SUBSTEPS = 100000;
+
+// Adaptive Dormand-Prince RK45. Takes as many internal steps as the tolerances
+// require to reach the next output time; the step size carries over between calls.
+function dormandPrinceStep(accel: AccelerationFn, relTol: number, absTol: number): StepFn {
+    let h = 0;
+
+    // state packed as [x, y, z, vx, vy, vz]
+    const deriv = (t: number, y: number[]): number[] => {
+        const a = accel(t, { x: y[0], y: y[1], z: y[2] }, { x: y[3], y: y[4], z: y[5] });
+        return [y[3], y[4], y[5], a.x, a.y, a.z];
+    };
+
+    return (t, pos, vel, dt) => {
+        let y = [pos.x, pos.y, pos.z, vel.x, vel.y, vel.z];
+        let time = t;
+        const tEnd = t + dt;
+        // h is a step size; backward integration takes the steps with negative sign
+        const direction = Math.sign(dt);
+        if (h <= 0) h = Math.abs(dt);
+
+        for (let count = 0; direction * (tEnd - time) > 0; count++) {
+            if (count > MAX_SUBSTEPS) return null;
+
+            const hStep = direction * Math.min(h, direction * (tEnd - time));
+            const k: number[][] = [];
+            for (let s = 0; s < 7; s++) {
+                const ys = y.map((yi, j) => yi + hStep * DP_A[s].reduce((acc, a, m) => acc + a * k[m][j], 0));
+                k.push(deriv(time + DP_C[s] * hStep, ys));
+            }
+
+            const yNew = y.map((yi, j) => yi + hStep * DP_B.reduce((acc, b, m) => acc + b * k[m][j], 0));
+
+            // scaled RMS norm of the embedded error estimate
+            let errSum = 0;
+            for (let j = 0; j < 6; j++) {
+                const errJ = hStep * DP_E.reduce((acc, e, m) => acc + e * k[m][j], 0);
+                const scale = absTol + relTol * Math.max(Math.abs(y[j]), Math.abs(yNew[j]));
+                errSum += (errJ / scale) ** 2;
+            }
+            const err = Math.sqrt(errSum / 6);
+
+            if (!Number.isFinite(err)) return null;
+
+            if (err <= 1) {
+                time += hStep;
+                y = yNew;
+            }
+
+            const factor = err === 0 ? 5 : Math.min(5, Math.max(0.2, 0.9 * err ** -0.2));
+            // don't let a step shortened to hit the output time shrink h for the next call
+            const size = Math.abs(hStep);
+            h = err <= 1 && size < h ? Math.max(h, size * factor) : size * factor;
+
+            if (h < 1e-14 * Math.max(1, Math.abs(time))) return null;
+        }
+
+        return {
+            pos: { x: y[0], y: y[1], z: y[2] },
+            vel: { x: y[3], y: y[4], z: y[5] }
+        };
+    };
+}
+
+// velocityDependent tells the leapfrog and Yoshida steps that accel depends on its velocity argument
+export function integrate(n: number, radius: number, dt: number,
+    t: number[], pos: Vec3[], vel: Vec3[],
+    accel: AccelerationFn, options: IntegratorOptions,
+    velocityDependent: boolean = false): { num: number, error: number } {
+
+    let step: StepFn;
+    switch (options.method) {
+        case 'rk4':
+            step = rk4Step(accel);
+            break;
+        case 'rk45':
+            step = dormandPrinceStep(accel, options.relTol, options.absTol);
+            break;
+        case 'leapfrog':
+            step = leapfrogStep(accel, velocityDependent);
+            break;
+        case 'yoshida':
+            step = yoshidaStep(accel, velocityDependent);
+            break;
+        default:
+            throw new Error(`Integrator ${options.method} is not handled by integrate()`);
+    }
+
+    return integrateFixedGrid(n, radius, dt, t, pos, vel, step);
+}
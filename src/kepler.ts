@@ -0,0 +1,70 @@
+import type { Vec3 } from "./types";
+
+// Two-body propagation about a point mass with gravitational parameter mu.
+
+const dot = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
+const norm = (vec: Vec3) => Math.sqrt(dot(vec, vec));
+
+// Stumpff functions C(z) and S(z), with series near z = 0 where the closed forms cancel
+function stumpff(z: number): { C: number, S: number } {
+    if (z > 1e-6) {
+        const s = Math.sqrt(z);
+        return { C: (1 - Math.cos(s)) / z, S: (s - Math.sin(s)) / (s * s * s) };
+    }
+    if (z < -1e-6) {
+        const s = Math.sqrt(-z);
+        return { C: (Math.cosh(s) - 1) / -z, S: (Math.sinh(s) - s) / (s * s * s) };
+    }
+    return { C: 1 / 2 - z / 24 + z * z / 720, S: 1 / 6 - z / 120 + z * z / 5040 };
+}
+
+// period of a bound two-body orbit, NaN for unbound ones
+export function keplerPeriod(pos: Vec3, vel: Vec3, mu: number): number {
+    const alpha = 2 / norm(pos) - dot(vel, vel) / mu; // 1 / a
+    return alpha > 0 ? 2 * Math.PI / Math.sqrt(mu * alpha ** 3) : NaN;
+}
+
+// The exact two-body state a time t after (pos, vel), from the universal form of
+// Kepler's equation, so elliptic, parabolic and hyperbolic orbits are all covered.
+export function keplerState(pos: Vec3, vel: Vec3, t: number, mu: number): { position: Vec3, velocity: Vec3 } {
+    const r0 = norm(pos);
+    const vr0 = dot(pos, vel) / r0;
+    const alpha = 2 / r0 - dot(vel, vel) / mu;
+    const sqrtMu = Math.sqrt(mu);
+
+    // a bound orbit repeats, and Newton's method converges best within one period
+    const period = keplerPeriod(pos, vel, mu);
+    const dt = Number.isFinite(period) ? t - period * Math.floor(t / period) : t;
+
+    let chi = alpha > 0 ? sqrtMu * alpha * dt : sqrtMu * dt / r0;
+    for (let k = 0; k < 100; k++) {
+        const z = alpha * chi * chi;
+        const { C, S } = stumpff(z);
+        const F = r0 * vr0 / sqrtMu * chi * chi * C + (1 - alpha * r0) * chi ** 3 * S + r0 * chi - sqrtMu * dt;
+        const dF = r0 * vr0 / sqrtMu * chi * (1 - z * S) + (1 - alpha * r0) * chi * chi * C + r0;
+        const step = F / dF;
+        chi -= step;
+        if (Math.abs(step) <= 1e-14 * Math.max(1, Math.abs(chi))) break;
+    }
+
+    const z = alpha * chi * chi;
+    const { C, S } = stumpff(z);
+    const f = 1 - chi * chi / r0 * C;
+    const g = dt - chi ** 3 * S / sqrtMu;
+    const position = {
+        x: f * pos.x + g * vel.x,
+        y: f * pos.y + g * vel.y,
+        z: f * pos.z + g * vel.z
+    };
+    const r = norm(position);
+    const fDot = sqrtMu / (r * r0) * (z * chi * S - chi);
+    const gDot = 1 - chi * chi / r * C;
+    return {
+        position,
+        velocity: {
+            x: fDot * pos.x + gDot * vel.x,
+            y: fDot * pos.y + gDot * vel.y,
+            z: fDot * pos.z + gDot * vel.z
+        }
+    };
+}
@@ -0,0 +1,24 @@
+import { runSimulation } from "./physics";
+import { accuracyReport } from "./validation";
+import type { OrbitWorkerRequest, OrbitWorkerResponse } from "./types";
+
+// Runs one integration per message and posts it before its accuracy check, which
+// integrates again and would otherwise hold the orbit back. A run in progress
+// cannot see new messages, so the app cancels by terminating this worker rather
+// than messaging it.
+const post = (message: OrbitWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<OrbitWorkerRequest>) => {
+    const request = event.data;
+    const { id, params } = request;
+    try {
+        const result = request.type === 'run'
+            ? runSimulation(params, fraction => post({ type: 'progress', id, fraction }))
+            : request.result;
+        if (request.type === 'run') post({ type: 'result', id, result });
+        const accuracy = accuracyReport(params, result, fraction => post({ type: 'accuracy-progress', id, fraction }));
+        post({ type: 'accuracy', id, accuracy });
+    } catch (error) {
+        post({ type: 'error', id, message: String(error) });
+    }
+};
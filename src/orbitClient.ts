@@ -0,0 +1,93 @@
+import type { AccuracyReport, OrbitResult, OrbitWorkerRequest, OrbitWorkerResponse, SimulationParams } from './types';
+
+export interface OrbitWorkerClient {
+  run: (params: SimulationParams) => void;
+  check: (params: SimulationParams, result: OrbitResult) => void; // the accuracy check alone, for a run computed elsewhere
+  cancel: () => void;
+  dispose: () => void;
+}
+
+const createWorker = () => new Worker(new URL('./orbit.worker.ts', import.meta.url), { type: 'module' });
+
+// Owns one orbit worker. A run or check that is still going when a new one
+// starts is cancelled by replacing the worker, and messages from stale runs are
+// dropped. The orbit is handed over as soon as it is done and its accuracy
+// report follows.
+export function createOrbitWorkerClient(handlers: {
+  onProgress: (fraction: number) => void;
+  onDone: (result: OrbitResult | null) => void;
+  onCheckProgress: (fraction: number) => void;
+  onChecked: (accuracy: AccuracyReport | null) => void;
+}): OrbitWorkerClient {
+  let worker: Worker | null = null;
+  let runId = 0;
+  // what the worker is busy with
+  let phase: 'idle' | 'run' | 'check' = 'idle';
+
+  const stop = () => {
+    worker?.terminate();
+    worker = null;
+    phase = 'idle';
+  };
+
+  const handleMessage = (event: MessageEvent<OrbitWorkerResponse>) => {
+    const message = event.data;
+    if (message.id !== runId) return;
+
+    switch (message.type) {
+      case 'progress':
+        handlers.onProgress(message.fraction);
+        return;
+      case 'result':
+        phase = 'check';
+        handlers.onDone(message.result);
+        handlers.onCheckProgress(0);
+        return;
+      case 'accuracy-progress':
+        handlers.onCheckProgress(message.fraction);
+        return;
+      case 'accuracy':
+        phase = 'idle';
+        handlers.onChecked(message.accuracy);
+        return;
+      case 'error':
+        console.error("Error in orbit worker:", message.message);
+        if (phase === 'run') handlers.onDone(null);
+        else handlers.onChecked(null);
+        phase = 'idle';
+    }
+  };
+
+  const send = (request: OrbitWorkerRequest) => {
+    if (phase !== 'idle') stop();
+    if (!worker) {
+      worker = createWorker();
+      worker.onmessage = handleMessage;
+    }
+    worker.postMessage(request);
+  };
+
+  return {
+    run: params => {
+      // a check of the previous run is not wanted any more
+      if (phase === 'check') handlers.onChecked(null);
+      send({ type: 'run', id: ++runId, params });
+      phase = 'run';
+      handlers.onProgress(0);
+    },
+    check: (params, result) => {
+      send({ type: 'check', id: ++runId, params, result });
+      phase = 'check';
+      handlers.onCheckProgress(0);
+    },
+    cancel: () => {
+      if (phase === 'idle') return;
+      const cancelled = phase;
+      stop();
+      runId++;
+      if (cancelled === 'run') handlers.onDone(null);
+      else handlers.onChecked(null);
+    },
+    dispose: stop,
+  };
+}
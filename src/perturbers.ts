@@ -0,0 +1,125 @@
+import type { Vec3, Perturber } from "./types";
+import { keplerState } from "./kepler";
+
+// Third bodies around the attractor. Everything is measured from the attractor,
+// which the perturbers also pull on, so each one acts on the orbiting body
+// through a direct term, towards the perturber, and an indirect term, the
+// attractor's own acceleration towards it taken away.
+
+export interface PerturberState {
+    position: Vec3;
+    velocity: Vec3;
+}
+
+// positions and velocities of every perturber at time t, in the inertial frame
+export type Ephemeris = (t: number) => PerturberState[];
+
+// how each perturber is drawn, in order
+export const PERTURBER_COLORS = ['violet', 'lightgreen', 'orange', 'lightskyblue'];
+
+// integrated perturbers take this many steps for every step of the orbit
+const SUBSTEPS = 4;
+
+const ZERO: Vec3 = { x: 0, y: 0, z: 0 };
+const add = (a: Vec3, b: Vec3, s: number = 1): Vec3 => ({ x: a.x + s * b.x, y: a.y + s * b.y, z: a.z + s * b.z });
+const norm = (vec: Vec3) => Math.sqrt(vec.x * vec.x + vec.y * vec.y + vec.z * vec.z);
+
+// Acceleration of a massless body at pos from the perturbers at the given positions.
+export function perturberAcceleration(pos: Vec3, positions: Vec3[], perturbers: Perturber[], mu: number): Vec3 {
+    let acc = ZERO;
+    perturbers.forEach((perturber, k) => {
+        const body = positions[k];
+        const d = add(body, pos, -1);
+        const dist = norm(d);
+        const r = norm(body);
+        const gm = mu * perturber.mass;
+        acc = add(add(acc, d, gm / (dist * dist * dist)), body, -gm / (r * r * r));
+    });
+    return acc;
+}
+
+// the potential whose gradient is perturberAcceleration
+export function perturberPotential(pos: Vec3, positions: Vec3[], perturbers: Perturber[], mu: number): number {
+    return perturbers.reduce((sum, perturber, k) => {
+        const body = positions[k];
+        const dist = norm(add(body, pos, -1));
+        const r = norm(body);
+        const dot = pos.x * body.x + pos.y * body.y + pos.z * body.z;
+        return sum - mu * perturber.mass * (1 / dist - dot / (r * r * r));
+    }, 0);
+}
+
+// Cubic Hermite interpolation between two states h apart, s in [0, 1].
+function hermite(a: PerturberState, b: PerturberState, h: number, s: number): PerturberState {
+    const s2 = s * s;
+    const s3 = s2 * s;
+    const mix = (p0: number, v0: number, p1: number, v1: number) => ({
+        p: (2 * s3 - 3 * s2 + 1) * p0 + (s3 - 2 * s2 + s) * h * v0 + (3 * s2 - 2 * s3) * p1 + (s3 - s2) * h * v1,
+        v: (6 * s2 - 6 * s) * (p0 - p1) / h + (3 * s2 - 4 * s + 1) * v0 + (3 * s2 - 2 * s) * v1
+    });
+    const x = mix(a.position.x, a.velocity.x, b.position.x, b.velocity.x);
+    const y = mix(a.position.y, a.velocity.y, b.position.y, b.velocity.y);
+    const z = mix(a.position.z, a.velocity.z, b.position.z, b.velocity.z);
+    return { position: { x: x.p, y: y.p, z: z.p }, velocity: { x: x.v, y: y.v, z: z.v } };
+}
+
+// Where the perturbers are from t = 0 to endTime, which may be negative. Kepler
+// perturbers are propagated exactly about a point mass; integrated ones feel
+// field, the attractor's inertial acceleration including GM, and each other.
+// The orbiting body is massless, so their motion does not depend on it and is
+// integrated in advance with RK4 at a fraction of step, then interpolated.
+export function perturberEphemeris(
+    perturbers: Perturber[],
+    mu: number,
+    field: (t: number, pos: Vec3) => Vec3,
+    endTime: number,
+    step: number
+): Ephemeris {
+    const kepler = (perturber: Perturber, t: number): PerturberState =>
+        keplerState(perturber.position, perturber.velocity, t, mu * (1 + perturber.mass));
+
+    if (perturbers.every(perturber => perturber.motion === 'kepler')) {
+        return t => perturbers.map(perturber => kepler(perturber, t));
+    }
+
+    // integrated states replace the Kepler ones where the perturber is integrated
+    const statesAt = (t: number, integrated: PerturberState[]): PerturberState[] =>
+        perturbers.map((perturber, k) => perturber.motion === 'integrated' ? integrated[k] : kepler(perturber, t));
+    // a perturber is pulled by the attractor as a body of mass M + m would be, plus the others' direct and indirect terms
+    const derivative = (t: number, states: PerturberState[]): PerturberState[] => {
+        const all = statesAt(t, states);
+        const positions = all.map(state => state.position);
+        return all.map((state, k) => {
+            const others = perturbers.filter((_, j) => j !== k);
+            const g = field(t, state.position);
+            const pull = perturberAcceleration(state.position, positions.filter((_, j) => j !== k), others, mu);
+            return { position: state.velocity, velocity: add(pull, g, 1 + perturbers[k].mass) };
+        });
+    };
+    const advance = (states: PerturberState[], rates: PerturberState[], h: number) =>
+        states.map((state, k) => ({ position: add(state.position, rates[k].position, h), velocity: add(state.velocity, rates[k].velocity, h) }));
+
+    const h = Math.sign(endTime) * step / SUBSTEPS;
+    // one step past the end, for the stages of the last orbit step
+    const n = Math.ceil(Math.abs(endTime / h)) + 2;
+    const grid: PerturberState[][] = [perturbers.map(perturber => ({ position: perturber.position, velocity: perturber.velocity }))];
+    for (let i = 1; i < n; i++) {
+        const t = (i - 1) * h;
+        const y = grid[i - 1];
+        const k1 = derivative(t, y);
+        const k2 = derivative(t + h / 2, advance(y, k1, h / 2));
+        const k3 = derivative(t + h / 2, advance(y, k2, h / 2));
+        const k4 = derivative(t + h, advance(y, k3, h));
+        grid.push(y.map((state, k) => ({
+            position: add(state.position, add(add(k1[k].position, k4[k].position), add(k2[k].position, k3[k].position), 2), h / 6),
+            velocity: add(state.velocity, add(add(k1[k].velocity, k4[k].velocity), add(k2[k].velocity, k3[k].velocity), 2), h / 6)
+        })));
+    }
+
+    return t => {
+        const u = Math.min(Math.max(t / h, 0), n - 1);
+        const i = Math.min(Math.floor(u), n - 2);
+        const integrated = grid[i].map((state, k) => hermite(state, grid[i + 1][k], h, u - i));
+        return statesAt(t, integrated);
+    };
+}
@@ -1,30 +1,194 @@
 import { Vec3 } from "./types";
+import type { IntegratorOptions, ConservedSeries, SimulationParams, OrbitResult, TerminationStatus, Tesseral } from "./types";
+import { integrate, defaultIntegratorOptions } from "./integrators";
+import type { AccelerationFn } from "./integrators";
+import { zonalAcceleration, zonalPotential, tesseralAcceleration, tesseralPotential, THESIS_ZONAL } from "./harmonics";
+import { conservedQuantities } from "./diagnostics";
+import { detectEvents } from "./events";
+import { ringPotential, ringAcceleration, spheroidPotential, spheroidAcceleration } from "./exactModels";
+import { perturberAcceleration, perturberEphemeris, perturberPotential } from "./perturbers";
+import { postNewtonianAcceleration, postNewtonianEnergy } from "./relativity";
+import { airVelocity, dissipativeAcceleration } from "./dissipation";
 
-export function samplePlanarOrbit(samples: number = 512, radius: number = 1): Vec3[] {
-    const out: Vec3[] = [];
-    for (let i = 0; i < samples; i++) {
-        const t = i / samples * 2 * Math.PI;
-        const r = radius; /// (1 + 0.5 * Math.cos(t));
-        out.push({ x: r * Math.cos(t), y: r * Math.sin(t), z: 0 });
+// G times the attractor mass in AU^3 / year^2 for one solar mass
+export const GM = 4.0 * Math.PI * Math.PI;
+
+// which axisymmetric potential the attractor has; the zonal list is only used by 'zonal'
+export type ShapeModel = Pick<SimulationParams, 'forceModel' | 'flattening'>;
+
+export const MULTIPOLE: ShapeModel = { forceModel: 'zonal', flattening: 0 };
+
+// gravitational potential per unit mass of the attractor at pos
+export function potential(pos: Vec3, attractorRadius: number, zonal: number[] = THESIS_ZONAL, shape: ShapeModel = MULTIPOLE): number {
+    switch (shape.forceModel) {
+        case 'ring':
+            return ringPotential(pos, GM, attractorRadius);
+        case 'spheroid':
+            return spheroidPotential(pos, GM, attractorRadius, shape.flattening);
+        default:
+            return zonalPotential(pos, GM, attractorRadius, zonal);
+    }
+}
+
+export function axisymmetricAcceleration(pos: Vec3, attractorRadius: number, zonal: number[] = THESIS_ZONAL, shape: ShapeModel = MULTIPOLE): Vec3 {
+    switch (shape.forceModel) {
+        case 'ring':
+            return ringAcceleration(pos, GM, attractorRadius);
+        case 'spheroid':
+            return spheroidAcceleration(pos, GM, attractorRadius, shape.flattening);
+        default:
+            return zonalAcceleration(pos, GM, attractorRadius, zonal);
     }
-    return out;
 }
 
+// output spacing of every run, and the step of the fixed-step integrators
+export const DEFAULT_TIME_STEP = 0.1;
+
+export const NO_TESSERAL: Tesseral = { C22: 0, S22: 0 };
+
+// an axisymmetric multipole attractor in Newtonian gravity that does not spin, is alone and has no atmosphere, as in the thesis
+export const AXISYMMETRIC: Pick<SimulationParams, 'tesseral' | 'spinRate' | 'frame' | 'forceModel' | 'flattening' | 'perturbers' | 'speedOfLight' | 'drag' | 'thrust'> = {
+    ...MULTIPOLE,
+    tesseral: NO_TESSERAL,
+    spinRate: 0,
+    frame: 'inertial',
+    perturbers: [],
+    speedOfLight: null,
+    drag: null,
+    thrust: null
+};
+
+export const isTriaxial = (tesseral: Tesseral) => tesseral.C22 !== 0 || tesseral.S22 !== 0;
+
+// whether the force on the body depends on its velocity: the Coriolis term, the 1PN correction, drag or thrust
+export const hasVelocityDependentForces = (model: Pick<SimulationParams, 'spinRate' | 'frame' | 'speedOfLight' | 'drag' | 'thrust'>): boolean =>
+    (model.frame === 'rotating' && model.spinRate !== 0) || model.speedOfLight !== null || model.drag !== null || model.thrust !== null;
+
+// rotates a vector about the z axis
+export const rotateZ = (vec: Vec3, angle: number): Vec3 => {
+    const c = Math.cos(angle);
+    const s = Math.sin(angle);
+    return { x: c * vec.x - s * vec.y, y: s * vec.x + c * vec.y, z: vec.z };
+};
+
+// potential and gravity of the attractor in its own, body-fixed frame
+export const bodyPotential = (pos: Vec3, attractorRadius: number, zonal: number[], tesseral: Tesseral, shape: ShapeModel = MULTIPOLE): number =>
+    potential(pos, attractorRadius, zonal, shape)
+    + (isTriaxial(tesseral) ? tesseralPotential(pos, GM, attractorRadius, tesseral.C22, tesseral.S22) : 0);
+
+function bodyAcceleration(pos: Vec3, attractorRadius: number, zonal: number[], tesseral: Tesseral, shape: ShapeModel): Vec3 {
+    const a = axisymmetricAcceleration(pos, attractorRadius, zonal, shape);
+    if (!isTriaxial(tesseral)) return a;
+    const b = tesseralAcceleration(pos, GM, attractorRadius, tesseral.C22, tesseral.S22);
+    return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+// A state in the frame co-rotating at spinRate, taken back to the inertial frame at time t.
+export function toInertialState(pos: Vec3, vel: Vec3, t: number, spinRate: number): { pos: Vec3, vel: Vec3 } {
+    const angle = spinRate * t;
+    // v_inertial = v_rotating + Ω × r
+    const v = { x: vel.x - spinRate * pos.y, y: vel.y + spinRate * pos.x, z: vel.z };
+    return { pos: rotateZ(pos, angle), vel: rotateZ(v, angle) };
+}
+
+// the inverse of toInertialState
+export function toRotatingState(pos: Vec3, vel: Vec3, t: number, spinRate: number): { pos: Vec3, vel: Vec3 } {
+    const p = rotateZ(pos, -spinRate * t);
+    const v = rotateZ(vel, -spinRate * t);
+    return { pos: p, vel: { x: v.x + spinRate * p.y, y: v.y - spinRate * p.x, z: v.z } };
+}
+
+export function toInertialTrajectory(times: number[], positions: Vec3[], velocities: Vec3[], spinRate: number): { positions: Vec3[], velocities: Vec3[] } {
+    const states = positions.map((pos, i) => toInertialState(pos, velocities[i], times[i], spinRate));
+    return { positions: states.map(state => state.pos), velocities: states.map(state => state.vel) };
+}
+
+// The potential of the meridional (ρ, z) motion left over once the conserved
+// L_z is accounted for: Φ_eff = Φ(ρ, z) + L_z² / 2ρ².
+export const effectivePotential = (rho: number, z: number, Lz: number, attractorRadius: number, zonal: number[] = THESIS_ZONAL, shape: ShapeModel = MULTIPOLE): number =>
+    potential({ x: rho, y: 0, z }, attractorRadius, zonal, shape) + (Lz * Lz) / (2 * rho * rho);
+
+// Direction for a helper-set velocity at pos: the part of the current velocity
+// perpendicular to pos, or prograde about z if there is none.
+function tangentialDirection(pos: Vec3, vel: Vec3): Vec3 {
+    const r2 = pos.x * pos.x + pos.y * pos.y + pos.z * pos.z;
+    const radial = (pos.x * vel.x + pos.y * vel.y + pos.z * vel.z) / r2;
+    let dir = { x: vel.x - radial * pos.x, y: vel.y - radial * pos.y, z: vel.z - radial * pos.z };
+    let len = Math.sqrt(dir.x * dir.x + dir.y * dir.y + dir.z * dir.z);
+    if (!(len > 1e-12 * Math.sqrt(vel.x * vel.x + vel.y * vel.y + vel.z * vel.z))) {
+        dir = pos.x === 0 && pos.y === 0 ? { x: 0, y: 1, z: 0 } : { x: -pos.y, y: pos.x, z: 0 };
+        len = Math.sqrt(dir.x * dir.x + dir.y * dir.y + dir.z * dir.z);
+    }
+    return { x: dir.x / len, y: dir.y / len, z: dir.z / len };
+}
+
+// Velocity for a circular orbit through pos in the attractor's field: the speed that
+// balances the inward part of the full acceleration, v² = -r·a, perpendicular to
+// pos. Off the equator the non-spherical terms also pull along z, so the orbit is
+// only circular to the extent that pull is small. Null if gravity pushes outwards.
+export function circularVelocity(pos: Vec3, vel: Vec3, attractorRadius: number, zonal: number[] = THESIS_ZONAL, shape: ShapeModel = MULTIPOLE): Vec3 | null {
+    const a = axisymmetricAcceleration(pos, attractorRadius, zonal, shape);
+    const v2 = -(pos.x * a.x + pos.y * a.y + pos.z * a.z);
+    if (!(v2 > 0)) return null;
+    const dir = tangentialDirection(pos, vel);
+    const v = Math.sqrt(v2);
+    return { x: v * dir.x, y: v * dir.y, z: v * dir.z };
+}
+
+// Velocity with exactly zero total energy, v² = -2Φ, along the same direction as
+// circularVelocity. Null where the potential is not negative.
+export function escapeVelocity(pos: Vec3, vel: Vec3, attractorRadius: number, zonal: number[] = THESIS_ZONAL, shape: ShapeModel = MULTIPOLE): Vec3 | null {
+    const v2 = -2 * potential(pos, attractorRadius, zonal, shape);
+    if (!(v2 > 0)) return null;
+    const dir = tangentialDirection(pos, vel);
+    const v = Math.sqrt(v2);
+    return { x: v * dir.x, y: v * dir.y, z: v * dir.z };
+}
+
+const emptySeries = (): ConservedSeries => ({ t: [], energy: [], Lx: [], Ly: [], Lz: [], L: [], jacobi: [], dissipated: [] });
+
+// a result with no trajectory, for runs that could not start or failed outright
+const failedResult = (status: TerminationStatus, energy: number = NaN): OrbitResult => ({
+    times: [],
+    positions: [],
+    velocities: [],
+    energy,
+    conserved: emptySeries(),
+    events: [],
+    perturbers: [],
+    status
+});
+
+const isFiniteState = (pos: Vec3, vel: Vec3) =>
+    [pos.x, pos.y, pos.z, vel.x, vel.y, vel.z].every(Number.isFinite);
+
 export function calculateOrbit(
     finalTime: number,  
     initialPosition: Vec3, initialVelocity: Vec3,
-    attractorRadius: number = 0.1
-): [Vec3[], number] {
-    const timeStep = 0.1; // fixed time step
+    attractorRadius: number = 0.1,
+    options: IntegratorOptions = defaultIntegratorOptions,
+    zonal: number[] = THESIS_ZONAL,
+    model: Pick<SimulationParams, 'tesseral' | 'spinRate' | 'frame' | 'forceModel' | 'flattening' | 'perturbers' | 'speedOfLight' | 'drag' | 'thrust'> = AXISYMMETRIC,
+    onProgress?: (fraction: number) => void,
+    timeStep: number = DEFAULT_TIME_STEP
+): OrbitResult {
+    const { tesseral, spinRate, frame, perturbers, speedOfLight, drag, thrust } = model;
 
-    // If something goes wrong, return a simple circular orbit
     try {
-        const GM = 4.0 * Math.PI * Math.PI;
+        if (!(timeStep > 0) || !Number.isFinite(timeStep)) {
+            return failedResult({ kind: 'invalid-input', message: `Time step ${timeStep} must be a positive number` });
+        }
+
+        // a negative final time integrates backward, with the same step size
         const numPoints = Math.abs(Math.round(finalTime / timeStep));
+        const dt = Math.sign(finalTime) * timeStep;
         
-        if (numPoints <= 0 || timeStep <= 0) {
-            console.warn("Invalid time parameters, using default orbit");
-            return [samplePlanarOrbit(1, 0.1), 0];
+        if (numPoints <= 1) {
+            return failedResult({ kind: 'invalid-input', message: `Final time ${finalTime} is shorter than one time step` });
+        }
+
+        if (!isFiniteState(initialPosition, initialVelocity)) {
+            return failedResult({ kind: 'invalid-input', message: "Initial position and velocity must be finite numbers" });
         }
         
         // set initial conditions
@@ -32,69 +196,229 @@ export function calculateOrbit(
         const velocities: Vec3[] = new Array(numPoints);
         const times: number[] = new Array(numPoints);
         
-        // Initialize first elements
+        // Initialize first elements; the rotating frame does not see the Ω × r part of the velocity
         positions[0] = { ...initialPosition };
-        velocities[0] = { ...initialVelocity };
+        velocities[0] = frame === 'rotating'
+            ? { x: initialVelocity.x + spinRate * initialPosition.y, y: initialVelocity.y - spinRate * initialPosition.x, z: initialVelocity.z }
+            : { ...initialVelocity };
         times[0] = 0;
         
         const r = Math.sqrt(initialPosition.x**2 + initialPosition.y**2 + initialPosition.z**2);
         const vmag = Math.sqrt(initialVelocity.x**2 + initialVelocity.y**2 + initialVelocity.z**2);
         
+        // In the inertial frame a spinning triaxial body turns under the orbit.
+        const gravity = (pos: Vec3) => bodyAcceleration(pos, attractorRadius, zonal, tesseral, model);
+        const inertialGravity = isTriaxial(tesseral) && spinRate !== 0
+            ? (t: number, pos: Vec3) => rotateZ(gravity(rotateZ(pos, -spinRate * t)), spinRate * t)
+            : (_t: number, pos: Vec3) => gravity(pos);
+
+        // the perturbers move in the inertial frame, over the whole run and a step beyond
+        const ephemeris = perturbers.length > 0
+            ? perturberEphemeris(perturbers, GM, inertialGravity, dt * numPoints, timeStep)
+            : null;
+        const perturberPositions = (t: number) => ephemeris ? ephemeris(t).map(state => state.position) : [];
+        const thirdBodyPotential = (pos: Vec3, t: number) =>
+            ephemeris ? perturberPotential(pos, perturberPositions(t), perturbers, GM) : 0;
+
+        // the 1PN terms of the energy, from the inertial state
+        const relativisticEnergy = speedOfLight !== null
+            ? (pos: Vec3, vel: Vec3) => postNewtonianEnergy(pos, vel, GM, speedOfLight)
+            : undefined;
+
         const mass = 1//.65956463e-7
         const KE = 0.5*mass*vmag**2
-        const PH = -GM/r + ((0.75*GM*(attractorRadius**2)*(initialPosition.z**2))/r**5) - ((0.25*GM*attractorRadius**2)/r**3)
-        const E = KE + mass*PH
+        const PH = bodyPotential(initialPosition, attractorRadius, zonal, tesseral, model) + thirdBodyPotential(initialPosition, 0)
+        const PN = relativisticEnergy?.(initialPosition, initialVelocity) ?? 0
+        const E = KE + mass*(PH + PN)
 
         if (r <= 0 || vmag <= 0) {
-            console.warn("Invalid initial conditions, using default orbit");
-            return [samplePlanarOrbit(1, 0.1), 0];
+            return failedResult({ kind: 'invalid-input', message: "Initial position and velocity must be non-zero" }, E);
+        }
+
+        if (r < attractorRadius) {
+            return failedResult({ kind: 'invalid-input', message: `Initial position is inside the attractor (r = ${r.toFixed(3)} < ${attractorRadius})` }, E);
         }
         
         // For tracking results
         let numComputed = 0;
         let errorFlag = 0;
         
-        // Run the RK2 integration
-        const result = planetRK2(
-            numPoints,
-            numComputed,
-            attractorRadius,
-            GM,
-            timeStep,
-            times,
-            positions,
-            velocities,
-            errorFlag
-        );
+        // the perturbers' pull, turned into the frame of the run
+        const thirdBody = (t: number, pos: Vec3): Vec3 => frame === 'rotating'
+            ? rotateZ(perturberAcceleration(rotateZ(pos, spinRate * t), perturberPositions(t), perturbers, GM), -spinRate * t)
+            : perturberAcceleration(pos, perturberPositions(t), perturbers, GM);
+
+        // In the rotating frame the body is fixed and the Coriolis and centrifugal terms appear.
+        const attractorForce: AccelerationFn = frame === 'rotating'
+            ? (_t, pos, vel) => {
+                const g = gravity(pos);
+                return {
+                    x: g.x + 2 * spinRate * vel.y + spinRate * spinRate * pos.x,
+                    y: g.y - 2 * spinRate * vel.x + spinRate * spinRate * pos.y,
+                    z: g.z
+                };
+            }
+            : (t, pos) => inertialGravity(t, pos);
+        // the 1PN term needs the inertial velocity, which the rotating frame sees without Ω × r
+        const relativistic = (c: number): AccelerationFn => frame === 'rotating'
+            ? (_t, pos, vel) => postNewtonianAcceleration(pos, { x: vel.x - spinRate * pos.y, y: vel.y + spinRate * pos.x, z: vel.z }, GM, c)
+            : (_t, pos, vel) => postNewtonianAcceleration(pos, vel, GM, c);
+        // drag and thrust likewise, with the atmosphere turning with the attractor
+        const dissipative = dissipativeAcceleration(attractorRadius, spinRate, drag, thrust);
+        const nonConservative = (a: (pos: Vec3, vel: Vec3) => Vec3): AccelerationFn => frame === 'rotating'
+            ? (_t, pos, vel) => a(pos, { x: vel.x - spinRate * pos.y, y: vel.y + spinRate * pos.x, z: vel.z })
+            : (_t, pos, vel) => a(pos, vel);
+
+        const corrections: AccelerationFn[] = [
+            ...(ephemeris ? [(t: number, pos: Vec3) => thirdBody(t, pos)] : []),
+            ...(speedOfLight !== null ? [relativistic(speedOfLight)] : []),
+            ...(dissipative ? [nonConservative(dissipative)] : [])
+        ];
+        const force: AccelerationFn = corrections.length > 0
+            ? (t, pos, vel) => corrections.reduce((acc, correction) => {
+                const b = correction(t, pos, vel);
+                return { x: acc.x + b.x, y: acc.y + b.y, z: acc.z + b.z };
+            }, attractorForce(t, pos, vel))
+            : attractorForce;
+
+        // every integrator evaluates the force at increasing |t|, so report progress from there
+        const duration = (numPoints - 1) * timeStep;
+        let nextReport = 0;
+        const accel: AccelerationFn = onProgress
+            ? (t, pos, vel) => {
+                if (Math.abs(t) >= nextReport) {
+                    onProgress(Math.min(1, Math.abs(t) / duration));
+                    nextReport = Math.abs(t) + duration / 100;
+                }
+                return force(t, pos, vel);
+            }
+            : force;
+
+        // Run the integration, RK2 is the one from the thesis
+        const result = options.method === 'rk2'
+            ? planetRK2(
+                numPoints,
+                numComputed,
+                attractorRadius,
+                accel,
+                dt,
+                times,
+                positions,
+                velocities,
+                errorFlag
+            )
+            : integrate(
+                numPoints,
+                attractorRadius,
+                dt,
+                times,
+                positions,
+                velocities,
+                accel,
+                options,
+                hasVelocityDependentForces(model)
+            );
         
         // Extract the number of points actually computed and error status
         numComputed = result.num;
         errorFlag = result.error;
-        
-        // Ensure we have at least a few points
-        if (numComputed < 2) {
-            console.warn("Orbit calculation failed to produce points, using default orbit");
-            return [samplePlanarOrbit(1, 0.1), 0];
+
+        let status: TerminationStatus = errorFlag === 1
+            ? { kind: 'collision', time: times[numComputed] }
+            : errorFlag === 2
+                ? { kind: 'blow-up', time: times[numComputed], message: "The integrator could not take a finite step" }
+                : { kind: 'completed' };
+
+        // planetRK2 does not check for overflow itself
+        for (let i = 1; i <= numComputed; i++) {
+            if (!isFiniteState(positions[i], velocities[i])) {
+                status = { kind: 'blow-up', time: times[i - 1], message: "The state stopped being finite" };
+                numComputed = i - 1;
+                break;
+            }
         }
         
         // Return the trajectory (only the computed positions)
-        return [positions.slice(0, numComputed + 1), E];
+        const n = numComputed + 1;
+        let outTimes = times.slice(0, n);
+        let outPositions = positions.slice(0, n);
+        let outVelocities = velocities.slice(0, n);
+
+        // the step that hit the attractor went past the surface, so end the orbit at the located impact instead
+        let events = detectEvents(outTimes, outPositions, outVelocities, force, attractorRadius);
+        const impact = events.find(event => event.kind === 'impact');
+        if (impact) {
+            events = events.filter(event => (event.time - impact.time) * dt <= 0);
+            const keep = outTimes.findIndex(time => (time - impact.time) * dt >= 0);
+            const end = keep < 0 ? outTimes.length : keep;
+            outTimes = [...outTimes.slice(0, end), impact.time];
+            outPositions = [...outPositions.slice(0, end), impact.position];
+            outVelocities = [...outVelocities.slice(0, end), impact.velocity];
+            status = { kind: 'collision', time: impact.time };
+        }
+
+        // conserved quantities are measured in the inertial frame, where the body has turned by Ωt
+        const inertial = frame === 'rotating'
+            ? toInertialTrajectory(outTimes, outPositions, outVelocities, spinRate)
+            : { positions: outPositions, velocities: outVelocities };
+        const conserved = conservedQuantities(
+            outTimes,
+            inertial.positions,
+            inertial.velocities,
+            (pos, t) => bodyPotential(rotateZ(pos, -spinRate * t), attractorRadius, zonal, tesseral, model) + thirdBodyPotential(pos, t),
+            spinRate,
+            relativisticEnergy,
+            dissipative ? (pos, vel) => {
+                const a = dissipative(pos, vel);
+                const air = airVelocity(pos, vel, spinRate);
+                return a.x * air.x + a.y * air.y + a.z * air.z;
+            } : undefined
+        );
+        const states = ephemeris ? outTimes.map(t => ephemeris(t).map(({ position, velocity }) => frame === 'rotating'
+            ? toRotatingState(position, velocity, t, spinRate)
+            : { pos: position, vel: velocity })) : [];
+        const tracks = perturbers.map((perturber, k) => ({
+            name: perturber.name,
+            positions: states.map(bodies => bodies[k].pos),
+            velocities: states.map(bodies => bodies[k].vel)
+        }));
+        return {
+            times: outTimes,
+            positions: outPositions,
+            velocities: outVelocities,
+            energy: E,
+            conserved,
+            events,
+            perturbers: tracks,
+            status
+        };
     } catch (error) {
         console.error("Error in orbit calculation:", error);
-        // Return a simple planar orbit as fallback
-        return [samplePlanarOrbit(1, 0.1), 0];
+        return failedResult({ kind: 'error', message: String(error) });
     }
 }
 
+export function runSimulation(params: SimulationParams, onProgress?: (fraction: number) => void): OrbitResult {
+    return calculateOrbit(
+        params.finalTime,
+        params.initialPosition,
+        params.initialVelocity,
+        params.attractorSize,
+        params.integrator,
+        params.zonal,
+        params,
+        onProgress,
+        params.timeStep
+    );
+}
 
 function planetRK2(n: number, num: number, 
-    radius: number, GM: number, 
+    radius: number, accel: AccelerationFn, 
     dt: number, t: number[], 
     pos: Vec3[], vel: Vec3[], 
     error: number): { num: number, error: number } {
     
     // small helpers
-    const sq = (u: number) => u * u;
     const hypot3 = (vec: Vec3) => Math.sqrt(vec.x * vec.x + vec.y * vec.y + vec.z * vec.z);
 
   // Initialize error
@@ -119,23 +443,13 @@ function planetRK2(n: number, num: number,
     const zpri = pos[i].z + (dt * vel[i].z) / 2.0;
 
     // accelerations at current state
-    const r2 = r * r;
-    const r3 = r2 * r;
-    const r5 = r3 * r2;
-    const r7 = r5 * r2;
+    const a = accel(t[i], pos[i], vel[i]);
 
-    const m = GM / r3;
-    const o = -3.75 * ((GM * radius * radius) / r7) * sq(pos[i].z);
-    const p = 0.75 * ((GM * radius * radius) / r5);
-    const q = 1.5 * ((GM * radius * radius) / r5);
-
-    const vxpri = vel[i].x - (dt * pos[i].x * (m + o + p)) / 2.0;
-    const vypri = vel[i].y - (dt * pos[i].y * (m + o + p)) / 2.0;
-    const vzpri = vel[i].z - (dt * pos[i].z * (m + o + p + q)) / 2.0;
+    const vxpri = vel[i].x + (dt * a.x) / 2.0;
+    const vypri = vel[i].y + (dt * a.y) / 2.0;
+    const vzpri = vel[i].z + (dt * a.z) / 2.0;
 
     // full-step positions
-    const rpri = hypot3({ x: xpri, y: ypri, z: zpri });
-
     pos[i1] = { 
         x: pos[i].x + dt * vxpri, 
         y: pos[i].y + dt * vypri, 
@@ -143,20 +457,12 @@ function planetRK2(n: number, num: number,
     };
 
     // accelerations at half-step state
-    const rpri2 = rpri * rpri;
-    const rpri3 = rpri2 * rpri;
-    const rpri5 = rpri3 * rpri2;
-    const rpri7 = rpri5 * rpri2;
-
-    const mpri = GM / rpri3;
-    const opri = -3.75 * ((GM * radius * radius) / rpri7) * sq(zpri);
-    const ppri = 0.75 * ((GM * radius * radius) / rpri5);
-    const qpri = 1.5 * ((GM * radius * radius) / rpri5);
+    const apri = accel(t[i] + dt / 2.0, { x: xpri, y: ypri, z: zpri }, { x: vxpri, y: vypri, z: vzpri });
 
     vel[i1] = { 
-        x: vel[i].x - dt * xpri * (mpri + opri + ppri), 
-        y: vel[i].y - dt * ypri * (mpri + opri + ppri), 
-        z: vel[i].z - dt * zpri * (mpri + opri + ppri + qpri) 
+        x: vel[i].x + dt * apri.x, 
+        y: vel[i].y + dt * apri.y, 
+        z: vel[i].z + dt * apri.z 
     };
 
     // stopping condition
@@ -0,0 +1,120 @@
+import type { Vec3, SimulationParams, SectionSettings, SectionPoint, SectionOrbit } from "./types";
+import { runSimulation, potential, effectivePotential, isTriaxial, GM, NO_TESSERAL } from "./physics";
+
+// samples used to find where on the section an orbit can start
+const RHO_SAMPLES = 2000;
+
+// E and L_z per unit mass of a state
+export function energyAndLz(params: SimulationParams, pos: Vec3, vel: Vec3): { energy: number, Lz: number } {
+    const v2 = vel.x * vel.x + vel.y * vel.y + vel.z * vel.z;
+    return {
+        energy: 0.5 * v2 + potential(pos, params.attractorSize, params.zonal, params),
+        Lz: pos.x * vel.y - pos.y * vel.x
+    };
+}
+
+// v_z² left over at (ρ, z = 0) once v_ρ and the azimuthal motion are paid for
+function vz2(params: SimulationParams, energy: number, Lz: number, rho: number, vRho: number): number {
+    return 2 * (energy - effectivePotential(rho, 0, Lz, params.attractorSize, params.zonal, params)) - vRho * vRho;
+}
+
+// The full state of a section point, placed on the x axis, or null if the
+// point lies outside the energetically allowed region.
+export function sectionState(
+    params: SimulationParams, settings: SectionSettings, point: SectionPoint
+): { position: Vec3, velocity: Vec3 } | null {
+    if (point.rho <= params.attractorSize) return null;
+    const w = vz2(params, settings.energy, settings.Lz, point.rho, point.vRho);
+    if (!(w >= 0)) return null;
+    const vz = Math.sqrt(w) * (settings.direction === 'ascending' ? 1 : -1);
+    return {
+        position: { x: point.rho, y: 0, z: 0 },
+        velocity: { x: point.vRho, y: settings.Lz / point.rho, z: vz }
+    };
+}
+
+// The range of ρ on z = 0 outside the attractor that an orbit with v_ρ = 0 can
+// reach, or null if there is none. Only bound energies have a finite range.
+export function allowedRhoRange(params: SimulationParams, energy: number, Lz: number): { min: number, max: number } | null {
+    if (!(energy < 0)) return null;
+    const lo = params.attractorSize;
+    const hi = Math.max(2 * GM / -energy, 2 * lo);
+
+    let min = NaN;
+    let max = NaN;
+    for (let k = 1; k < RHO_SAMPLES; k++) {
+        const rho = lo + (hi - lo) * k / RHO_SAMPLES;
+        if (vz2(params, energy, Lz, rho, 0) < 0) continue;
+        if (Number.isNaN(min)) min = rho;
+        max = rho;
+    }
+    return Number.isNaN(min) ? null : { min, max };
+}
+
+// The terms of params that break the conservation of E or L_z, as labels; the
+// section is computed without them.
+export function nonConservingTerms(params: SimulationParams): string[] {
+    return [
+        isTriaxial(params.tesseral) && 'the tesseral C22/S22 terms',
+        params.frame === 'rotating' && 'the rotating frame',
+        params.perturbers.length > 0 && 'the perturbers',
+        params.speedOfLight !== null && 'the 1PN correction',
+        params.drag !== null && 'the drag',
+        params.thrust !== null && 'the thrust'
+    ].filter((term): term is string => term !== false);
+}
+
+// params with only the axisymmetric field, in which E and L_z are both conserved
+const axisymmetricField = (params: SimulationParams): SimulationParams => ({
+    ...params,
+    tesseral: NO_TESSERAL,
+    spinRate: 0, // only felt through the terms above
+    frame: 'inertial',
+    perturbers: [],
+    speedOfLight: null,
+    drag: null,
+    thrust: null
+});
+
+const toSectionPoint = (pos: Vec3, vel: Vec3): SectionPoint => {
+    const rho = Math.sqrt(pos.x * pos.x + pos.y * pos.y);
+    return { rho, vRho: (pos.x * vel.x + pos.y * vel.y) / rho };
+};
+
+// Integrates `settings.orbits` orbits that start on the section with v_ρ = 0,
+// spread evenly along the allowed ρ range, and records every crossing of z = 0
+// in the chosen direction. Crossings come from the node events, so they are
+// located inside the step rather than read off the output grid. Only the
+// axisymmetric field is integrated, see nonConservingTerms.
+export function computeSection(
+    params: SimulationParams, settings: SectionSettings,
+    onProgress?: (fraction: number) => void
+): SectionOrbit[] {
+    const range = allowedRhoRange(params, settings.energy, settings.Lz);
+    if (!range) {
+        throw new Error("No bound orbit with this energy and L_z crosses z = 0 outside the attractor");
+    }
+
+    const field = axisymmetricField(params);
+    const kind = settings.direction === 'ascending' ? 'ascending-node' : 'descending-node';
+    const orbits: SectionOrbit[] = [];
+
+    for (let k = 0; k < settings.orbits; k++) {
+        const start = { rho: range.min + (range.max - range.min) * (k + 0.5) / settings.orbits, vRho: 0 };
+        const state = sectionState(params, settings, start);
+        if (!state) continue;
+
+        const result = runSimulation(
+            { ...field, finalTime: settings.finalTime, initialPosition: state.position, initialVelocity: state.velocity },
+            onProgress && (fraction => onProgress((k + fraction) / settings.orbits))
+        );
+        orbits.push({
+            points: [start, ...result.events
+                .filter(event => event.kind === kind)
+                .map(event => toSectionPoint(event.position, event.velocity))],
+            status: result.status
+        });
+    }
+
+    return orbits;
+}
@@ -0,0 +1,52 @@
+import type { SimulationParams, OrbitResult, PrecessionBudget, SecularRate } from "./types";
+import { GM, NO_TESSERAL, runSimulation, toInertialTrajectory } from "./physics";
+import { elementSeries, fitSecularRate, j2PrecessionRates } from "./elements";
+import { equivalentZonal } from "./exactModels";
+import { postNewtonianApsidalRate } from "./relativity";
+
+const mean = (values: number[]) => values.reduce((acc, q) => acc + q, 0) / values.length;
+
+type Theory = (a: number, e: number, i: number, equatorial: boolean) => number;
+
+// Apsidal rate of a run, fitted from its osculating ω and predicted from its mean elements.
+function apsidalRate(params: SimulationParams, result: OrbitResult, theory: Theory): SecularRate {
+    const inertial = params.frame === 'rotating'
+        ? toInertialTrajectory(result.times, result.positions, result.velocities, params.spinRate)
+        : { positions: result.positions, velocities: result.velocities };
+    const elements = elementSeries(inertial.positions, inertial.velocities, GM);
+    const bound = result.status.kind === 'completed' && elements.length > 0 && elements.every(el => el.a > 0 && el.e < 1);
+    if (!bound) return { measured: NaN, theory: NaN };
+    return {
+        measured: fitSecularRate(result.times, elements.map(el => el.circular ? NaN : el.omega)),
+        theory: theory(
+            mean(elements.map(el => el.a)),
+            mean(elements.map(el => el.e)),
+            mean(elements.map(el => el.i)),
+            elements.every(el => el.equatorial)
+        )
+    };
+}
+
+// Runs params with its multipole field only, with the 1PN term at speed of light
+// c around a point mass only, and with both. Perturbers, drag and thrust are left
+// out so the two effects can be told apart; at first order their rates simply add.
+export function precessionBudget(params: SimulationParams, c: number, onProgress?: (fraction: number) => void): PrecessionBudget {
+    const J2 = params.forceModel === 'zonal' ? params.zonal[0] ?? 0 : equivalentZonal(params.forceModel, params.flattening)[0];
+    // an equatorial orbit has no node, so its ω is measured from x and turns with the nodal rate as well
+    const multipoleTheory: Theory = (a, e, i, equatorial) => {
+        const rates = j2PrecessionRates(a, e, i, GM, params.attractorSize, J2);
+        return rates.apsidal + (equatorial ? rates.nodal : 0);
+    };
+    const relativityTheory = (a: number, e: number) => postNewtonianApsidalRate(a, e, GM, c);
+
+    const multipole: SimulationParams = { ...params, perturbers: [], speedOfLight: null, drag: null, thrust: null };
+    const relativity: SimulationParams = { ...multipole, zonal: [], forceModel: 'zonal', tesseral: NO_TESSERAL, speedOfLight: c };
+    const combined: SimulationParams = { ...multipole, speedOfLight: c };
+    const run = (runParams: SimulationParams, k: number) =>
+        runSimulation(runParams, onProgress && (fraction => onProgress((k + fraction) / 3)));
+    return {
+        multipole: apsidalRate(multipole, run(multipole, 0), multipoleTheory),
+        relativity: apsidalRate(relativity, run(relativity, 1), relativityTheory),
+        combined: apsidalRate(combined, run(combined, 2), (a, e, i, equatorial) => multipoleTheory(a, e, i, equatorial) + relativityTheory(a, e))
+    };
+}
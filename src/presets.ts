@@ -0,0 +1,299 @@
+import type { Vec3, Preset, CameraView, SimulationParams } from "./types";
+import { defaultIntegratorOptions } from "./integrators";
+import { THESIS_ZONAL } from "./harmonics";
+import { circularVelocity, GM, AXISYMMETRIC, DEFAULT_TIME_STEP } from "./physics";
+import { elementsToState } from "./elements";
+import { THESIS_BODY_ID, findBody, codeUnits } from "./units";
+import { isRecord, readVec3, parseSimulationParams } from "./exporting";
+
+export const PRESET_FILE_FORMAT = "quadrupoles-presets";
+
+// the thesis runs use the thin-ring quadrupole, J2 = 0.5; the orbits that start at
+// r = 1 need a ring smaller than that so they do not begin at its surface
+const thesisParams = (initialPosition: Vec3, initialVelocity: Vec3, finalTime: number = 100, attractorSize: number = 1): SimulationParams => ({
+    attractorSize,
+    finalTime,
+    timeStep: DEFAULT_TIME_STEP,
+    initialPosition,
+    initialVelocity,
+    integrator: defaultIntegratorOptions,
+    zonal: THESIS_ZONAL,
+    body: THESIS_BODY_ID,
+    ...AXISYMMETRIC
+});
+
+// A Keplerian orbit around a real body, from its altitude above the equatorial
+// radius in km and its angles in degrees. Lengths are in units of that radius.
+function bodyOrbit(bodyId: string, altitudeKm: number, eccentricity: number, inclinationDeg: number, finalTime: number): SimulationParams {
+    const body = findBody(bodyId);
+    if (!body) throw new Error(`Unknown body ${bodyId}`);
+    const a = (body.radius + altitudeKm * 1000) / body.radius;
+    const state = elementsToState(a, eccentricity, inclinationDeg * Math.PI / 180, 0, 0, 0, GM);
+    return {
+        attractorSize: 1,
+        finalTime,
+        timeStep: DEFAULT_TIME_STEP,
+        initialPosition: state.position,
+        initialVelocity: state.velocity,
+        // a low orbit only gets about a dozen output steps per revolution
+        integrator: { ...defaultIntegratorOptions, method: 'rk45' },
+        zonal: body.zonal,
+        body: body.id,
+        ...AXISYMMETRIC
+    };
+}
+
+// A test particle on a near-circular orbit at r = 1 inclined by 65° to a
+// companion of equal mass on a circular orbit at r = 8 in the xy plane.
+function kozaiParams(): SimulationParams {
+    const inner = elementsToState(1, 0.01, 65 * Math.PI / 180, 0, 0, 0, GM);
+    const position = { x: 8, y: 0, z: 0 };
+    return {
+        ...thesisParams(inner.position, inner.velocity, 600, 0.00001),
+        timeStep: 0.05,
+        // the eccentricity reaches 0.85, too close a periapsis for a fixed step
+        integrator: { method: 'rk45', relTol: 1e-10, absTol: 1e-10 },
+        zonal: [],
+        perturbers: [{ name: 'Companion', mass: 1, position, velocity: { x: 0, y: Math.sqrt(GM * 2 / 8), z: 0 }, motion: 'kepler' }]
+    };
+}
+
+// A Mercury-like orbit around a slightly oblate Sun with c lowered from about
+// 63 000 AU/yr to 1000, so the relativistic and J2 precession are comparable.
+function relativisticParams(): SimulationParams {
+    const state = elementsToState(0.387, 0.2056, 0, 0, 0, 0, GM);
+    return {
+        ...thesisParams(state.position, state.velocity, 100, 0.1),
+        timeStep: 0.01,
+        integrator: { method: 'rk45', relTol: 1e-10, absTol: 1e-10 },
+        zonal: [1e-3],
+        speedOfLight: 1000
+    };
+}
+
+// A 51.6° orbit starting 250 km above the Earth in a thermosphere-like
+// atmosphere: ρ ≈ 4e-11 kg/m³ there with a 60 km scale height (extrapolated to
+// the surface, which a single exponential cannot match lower down), and a
+// ballistic coefficient of 50 kg/m². Only ρ₀ / β enters, in units of 1 / R.
+// The atmosphere turns with the Earth.
+function decayParams(): SimulationParams {
+    const units = codeUnits('earth');
+    const density = 2.4e-9; // kg/m³
+    const ballisticCoefficient = 50; // kg/m²
+    return {
+        ...bodyOrbit('earth', 250, 0, 51.6, 300),
+        timeStep: 0.02,
+        spinRate: 7.2921159e-5 * units.time,
+        drag: { density: density / ballisticCoefficient * units.length, scaleHeight: 60e3 / units.length, ballisticCoefficient: 1 }
+    };
+}
+
+const TOP_VIEW: CameraView = { eye: { x: 0, y: 0, z: 2 }, up: { x: 0, y: 1, z: 0 } };
+const SIDE_VIEW: CameraView = { eye: { x: 0, y: -2, z: 0.2 } };
+
+export const PRESETS: Preset[] = [
+    {
+        id: 'thesis-4.1',
+        name: 'Near-attractor equatorial orbit (Fig. 4.1)',
+        description: 'Starts just outside the attractor, where the quadrupole term matters most. Duplicate it as a point attractor to compare with the monopole-only orbit.',
+        category: 'Thesis figures',
+        params: thesisParams({ x: 1, y: 0, z: 0 }, { x: 0, y: 7, z: 0 }, 100, 0.5),
+        camera: TOP_VIEW
+    },
+    {
+        id: 'thesis-4.2',
+        name: 'Far-attractor equatorial orbit (Fig. 4.2)',
+        description: 'Further out the quadrupole correction is small, but the orbit still does not close, unlike the Keplerian ellipse.',
+        category: 'Thesis figures',
+        params: thesisParams({ x: 3, y: 0, z: 0 }, { x: 0, y: 4, z: 0 }),
+        camera: TOP_VIEW
+    },
+    {
+        id: 'thesis-4.3',
+        name: 'Polar orbit (Fig. 4.3)',
+        description: 'Starts above the pole and moves in a plane containing the symmetry axis, which it stays in.',
+        category: 'Thesis figures',
+        params: thesisParams({ x: 0, y: 0, z: 1 }, { x: 0, y: 7, z: 0 }, 100, 0.5),
+        camera: { eye: { x: 2, y: 0, z: 0.2 } }
+    },
+    {
+        id: 'thesis-4.4',
+        name: 'Orbit falling into the attractor (Fig. 4.4)',
+        description: 'With too little velocity the body falls inside the sphere bounding the attractor and the run stops there. The thesis does not list its initial conditions; these reproduce the behaviour.',
+        category: 'Thesis figures',
+        params: thesisParams({ x: 3, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }),
+        camera: TOP_VIEW
+    },
+    {
+        id: 'thesis-4.5',
+        name: 'Unbound equatorial orbit (Fig. 4.5)',
+        description: 'Fast enough to escape, so the orbit opens into a hyperbola-like path.',
+        category: 'Thesis figures',
+        params: thesisParams({ x: 1, y: 0, z: 0 }, { x: 0, y: 12, z: 0 }, 100, 0.5),
+        camera: TOP_VIEW
+    },
+    {
+        id: 'thesis-4.6',
+        name: 'Orbit confined to a torus (Fig. 4.6)',
+        description: 'An inclined orbit precesses about the z axis and fills a toroidal shell, while L_z stays constant.',
+        category: 'Thesis figures',
+        params: thesisParams({ x: 3, y: 0, z: 0 }, { x: 0, y: 2, z: 2 }, 500)
+    },
+    {
+        id: 'monopole-bound',
+        name: 'Monopole orbit (bound)',
+        description: 'A tiny attractor makes the zonal terms negligible, leaving a closed Keplerian ellipse.',
+        category: 'Examples',
+        params: {
+            ...thesisParams({ x: 4, y: 0, z: 0 }, { x: 0, y: 2, z: 3 }, 300),
+            attractorSize: 0.00001
+        }
+    },
+    {
+        id: 'quadrupole-bound',
+        name: 'Quadrupole orbit (bound)',
+        description: 'An inclined orbit around the unit ring, showing nodal and apsidal precession.',
+        category: 'Examples',
+        params: thesisParams({ x: 3, y: 1, z: 0 }, { x: 0, y: 4, z: 2 }, 500)
+    },
+    {
+        id: 'equatorial-circular',
+        name: 'Circular equatorial orbit',
+        description: 'The circular speed at r = 4 in the quadrupole field, so the orbit neither precesses nor leaves the plane.',
+        category: 'Equatorial',
+        params: thesisParams({ x: 4, y: 0, z: 0 }, circularVelocity({ x: 4, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }, 1, THESIS_ZONAL) ?? { x: 0, y: 1, z: 0 }),
+        camera: TOP_VIEW
+    },
+    {
+        id: 'polar-far',
+        name: 'Polar orbit far from the attractor',
+        description: 'At larger distances the polar orbit is nearly Keplerian and its plane barely moves.',
+        category: 'Polar',
+        params: thesisParams({ x: 0, y: 0, z: 6 }, { x: 0, y: 2, z: 0 }, 300),
+        camera: SIDE_VIEW
+    },
+    {
+        id: 'elongated-asteroid',
+        name: 'Orbit around an elongated, spinning asteroid',
+        description: 'A strong C22 and a spin that co-rotates with the orbit at r = 2 R. L_z is no longer conserved; the Jacobi constant is. Shown in the frame rotating with the asteroid.',
+        category: 'Triaxial',
+        params: {
+            ...thesisParams({ x: 3, y: 0, z: 0 }, { x: 0, y: 3.7, z: 0.3 }, 300),
+            integrator: { ...defaultIntegratorOptions, method: 'rk45' },
+            zonal: [0.09],
+            tesseral: { C22: 0.05, S22: 0 },
+            // corotation at r = 2: Ω = √(GM / r³) with GM = 4π²
+            spinRate: 2 * Math.PI / Math.sqrt(8),
+            frame: 'rotating'
+        },
+        camera: TOP_VIEW
+    },
+    {
+        id: 'relativistic-perihelion',
+        name: 'Relativistic and quadrupole perihelion precession',
+        description: 'A Mercury-like orbit with the 1PN correction at a reduced speed of light and a small J2. Compare the two contributions in the perihelion precession panel.',
+        category: 'Relativity',
+        params: relativisticParams(),
+        camera: TOP_VIEW
+    },
+    {
+        id: 'kozai-lidov',
+        name: 'Kozai–Lidov cycles from a distant companion',
+        description: 'A point attractor with an equal-mass companion eight times further out. Above about 39° of mutual inclination the companion trades the orbit\'s inclination for eccentricity and back, here from i = 65° and e = 0 to about 39° and 0.85; watch e and i in the orbital elements.',
+        category: 'Perturbers',
+        params: kozaiParams(),
+        camera: SIDE_VIEW
+    },
+    {
+        id: 'earth-decay',
+        name: 'Orbital decay and re-entry (Earth, 250 km)',
+        description: 'Drag in an exponential atmosphere turning with the Earth lowers the orbit until it re-enters after about 17 days. The diagnostics split the energy into what is left and what drag has taken out. Duplicate it as a point attractor to see how J2 changes the decay path.',
+        category: 'Dissipation',
+        params: decayParams()
+    },
+    {
+        id: 'earth-sun-synchronous',
+        name: 'Sun-synchronous orbit (Earth, 700 km)',
+        description: 'At i = 98.19° Earth\'s J2 turns the node eastwards by about 0.986° per day, once around per year, so the orbit keeps the same angle to the Sun. Show results in astronomical units to read dΩ/dt in °/yr.',
+        category: 'Real bodies',
+        params: bodyOrbit('earth', 700, 0, 98.19, 1000)
+    },
+    {
+        id: 'earth-iss',
+        name: 'ISS-like low Earth orbit (420 km, 51.6°)',
+        description: 'A prograde low orbit whose node drifts westwards by about 5° per day.',
+        category: 'Real bodies',
+        params: bodyOrbit('earth', 420, 0.0005, 51.6, 300)
+    },
+    {
+        id: 'jupiter-inclined',
+        name: 'Inclined orbit close to Jupiter',
+        description: 'Jupiter\'s large J2 makes an orbit one radius above the cloud tops precess quickly.',
+        category: 'Real bodies',
+        params: bodyOrbit('jupiter', 71492, 0.1, 30, 300)
+    },
+    {
+        id: 'saturn-ring-particle',
+        name: 'Ring particle around Saturn',
+        description: 'A slightly eccentric orbit in the equatorial plane at the distance of the B ring, showing apsidal precession.',
+        category: 'Real bodies',
+        params: bodyOrbit('saturn', 50000, 0.01, 0, 300),
+        camera: TOP_VIEW
+    }
+];
+
+function parseCamera(value: unknown): CameraView | undefined {
+    if (value === undefined) return undefined;
+    if (!isRecord(value)) {
+        throw new Error(`"camera" must be an object with an "eye"`);
+    }
+    return {
+        eye: readVec3(value, "eye"),
+        center: value.center === undefined ? undefined : readVec3(value, "center"),
+        up: value.up === undefined ? undefined : readVec3(value, "up")
+    };
+}
+
+function parsePreset(value: unknown, index: number): Preset {
+    if (!isRecord(value) || typeof value.name !== "string") {
+        throw new Error(`Preset ${index + 1} must be an object with a "name"`);
+    }
+    try {
+        return {
+            id: typeof value.id === "string" ? value.id : `user-${index + 1}-${value.name}`,
+            name: value.name,
+            description: typeof value.description === "string" ? value.description : "",
+            category: typeof value.category === "string" ? value.category : "User presets",
+            params: parseSimulationParams(value.params),
+            camera: parseCamera(value.camera)
+        };
+    } catch (error) {
+        throw new Error(`Preset "${value.name}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+// Reads user presets from JSON: either a list of presets or
+// { "format": "quadrupoles-presets", "presets": [...] }.
+export function parsePresetsJson(text: string): Preset[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("The file is not valid JSON");
+    }
+    const list = Array.isArray(data)
+        ? data
+        : isRecord(data) && data.format === PRESET_FILE_FORMAT && Array.isArray(data.presets)
+            ? data.presets
+            : null;
+    if (!list) {
+        throw new Error(`The file must hold a list of presets or a ${PRESET_FILE_FORMAT} object`);
+    }
+    return list.map(parsePreset);
+}
+
+export function matchesSearch(preset: Preset, query: string): boolean {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const text = `${preset.name} ${preset.description} ${preset.category}`.toLowerCase();
+    return words.every(word => text.includes(word));
+}
@@ -0,0 +1,33 @@
+import type { Vec3 } from "./types";
+
+// First post-Newtonian correction for a test particle around a non-spinning mass
+// (the Schwarzschild field in harmonic coordinates). Velocities are inertial and
+// c is in simulation units, so lowering it exaggerates the effect.
+
+const dot = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
+
+// the 1PN acceleration, added to the Newtonian one
+export function postNewtonianAcceleration(pos: Vec3, vel: Vec3, GM: number, c: number): Vec3 {
+    const r = Math.sqrt(dot(pos, pos));
+    const k = GM / (c * c * r * r * r);
+    const radial = k * (4 * GM / r - dot(vel, vel));
+    const along = 4 * k * dot(pos, vel);
+    return {
+        x: radial * pos.x + along * vel.x,
+        y: radial * pos.y + along * vel.y,
+        z: radial * pos.z + along * vel.z
+    };
+}
+
+// the 1PN terms of the conserved energy per unit mass, added to v²/2 + Φ
+export function postNewtonianEnergy(pos: Vec3, vel: Vec3, GM: number, c: number): number {
+    const u = GM / Math.sqrt(dot(pos, pos));
+    const v2 = dot(vel, vel);
+    return (3 / 8 * v2 * v2 + 1.5 * u * v2 + 0.5 * u * u) / (c * c);
+}
+
+// Secular apsidal rate (rad per time unit) of a bound orbit, 6πGM / (c² a (1 - e²)) per orbit.
+export function postNewtonianApsidalRate(a: number, e: number, GM: number, c: number): number {
+    if (!(a > 0) || !(e < 1)) return NaN;
+    return 3 * GM ** 1.5 / (c * c * a ** 2.5 * (1 - e * e));
+}
@@ -0,0 +1,15 @@
+import { computeSection } from "./poincare";
+import type { SectionWorkerRequest, SectionWorkerResponse } from "./types";
+
+// Computes one surface of section per message; cancelled by terminating the worker.
+const post = (message: SectionWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<SectionWorkerRequest>) => {
+    const { id, params, settings } = event.data;
+    try {
+        const orbits = computeSection(params, settings, fraction => post({ type: 'progress', id, fraction }));
+        post({ type: 'result', id, orbits });
+    } catch (error) {
+        post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+    }
+};
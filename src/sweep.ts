@@ -0,0 +1,143 @@
+import type { Vec3, SimulationParams, OrbitResult, SweepAxis, SweepCell, SweepParameter, SweepSettings, SweepTask } from "./types";
+import { runSimulation, toInertialTrajectory, GM } from "./physics";
+import { elementSeries, fitSecularRate } from "./elements";
+import { maxAbs, relativeDrift } from "./diagnostics";
+
+export const SWEEP_FILE_FORMAT = "quadrupoles-sweep";
+
+// keeps a sweep inside what a browser tab can run in reasonable time
+export const MAX_SWEEP_STEPS = 60;
+
+export const SWEEP_PARAMETER_LABELS: Record<SweepParameter, string> = {
+    attractorSize: 'Attractor size R',
+    x0: 'Initial x',
+    z0: 'Initial z',
+    speed: 'Initial speed |v|',
+    inclination: 'Inclination of the initial velocity (°)',
+    J2: 'J₂',
+    finalTime: 'Final time'
+};
+
+const DEG = Math.PI / 180;
+const norm = (vec: Vec3) => Math.sqrt(vec.x * vec.x + vec.y * vec.y + vec.z * vec.z);
+
+export function sweepValues(axis: SweepAxis): number[] {
+    if (axis.steps <= 1) return [axis.min];
+    return Array.from({ length: axis.steps }, (_, k) => axis.min + (axis.max - axis.min) * k / (axis.steps - 1));
+}
+
+// Turns the velocity about the position so its tangential part points at the
+// given inclination from due east: 0° is a prograde equatorial orbit, 90° polar.
+// The speed and the radial part stay the same.
+function inclineVelocity(pos: Vec3, vel: Vec3, inclination: number): Vec3 {
+    const r = norm(pos);
+    const radial = { x: pos.x / r, y: pos.y / r, z: pos.z / r };
+    // east is ẑ × r̂, undefined above the poles, where y is used instead
+    const rho = Math.sqrt(radial.x * radial.x + radial.y * radial.y);
+    const east = rho > 1e-12 ? { x: -radial.y / rho, y: radial.x / rho, z: 0 } : { x: 0, y: 1, z: 0 };
+    const north = {
+        x: radial.y * east.z - radial.z * east.y,
+        y: radial.z * east.x - radial.x * east.z,
+        z: radial.x * east.y - radial.y * east.x
+    };
+    const vr = vel.x * radial.x + vel.y * radial.y + vel.z * radial.z;
+    const vt = Math.sqrt(Math.max(0, norm(vel) ** 2 - vr * vr));
+    const c = Math.cos(inclination * DEG);
+    const s = Math.sin(inclination * DEG);
+    return {
+        x: vr * radial.x + vt * (c * east.x + s * north.x),
+        y: vr * radial.y + vt * (c * east.y + s * north.y),
+        z: vr * radial.z + vt * (c * east.z + s * north.z)
+    };
+}
+
+export function applySweepValue(params: SimulationParams, parameter: SweepParameter, value: number): SimulationParams {
+    const { initialPosition: pos, initialVelocity: vel } = params;
+    switch (parameter) {
+        case 'attractorSize':
+            return { ...params, attractorSize: value };
+        case 'x0':
+            return { ...params, initialPosition: { ...pos, x: value } };
+        case 'z0':
+            return { ...params, initialPosition: { ...pos, z: value } };
+        case 'speed': {
+            const v = norm(vel);
+            const dir = v > 0 ? { x: vel.x / v, y: vel.y / v, z: vel.z / v } : { x: 0, y: 1, z: 0 };
+            return { ...params, initialVelocity: { x: value * dir.x, y: value * dir.y, z: value * dir.z } };
+        }
+        case 'inclination':
+            return { ...params, initialVelocity: inclineVelocity(pos, vel, value) };
+        case 'J2':
+            return { ...params, zonal: [value, ...params.zonal.slice(1)] };
+        case 'finalTime':
+            // the sweep is over the length of the run, in whichever direction it goes
+            return { ...params, finalTime: params.finalTime < 0 ? -Math.abs(value) : value };
+    }
+}
+
+// one task per grid cell, the y axis varying slowest
+export function sweepTasks(params: SimulationParams, settings: SweepSettings): SweepTask[] {
+    const xs = sweepValues(settings.x);
+    const ys = settings.y ? sweepValues(settings.y) : [NaN];
+    return ys.flatMap((y, iy) => xs.map((x, ix) => {
+        const withX = applySweepValue(params, settings.x.parameter, x);
+        return {
+            index: iy * xs.length + ix,
+            params: settings.y ? applySweepValue(withX, settings.y.parameter, y) : withX
+        };
+    }));
+}
+
+export function sweepCell(params: SimulationParams, result: OrbitResult): SweepCell {
+    const { status, conserved } = result;
+    const energyDrift = conserved.energy.length > 0 ? maxAbs(relativeDrift(conserved.energy)) : NaN;
+    if (status.kind === 'collision') {
+        return { outcome: 'collided', impactTime: status.time, energyDrift, nodalRate: NaN };
+    }
+    if (status.kind !== 'completed') {
+        return { outcome: 'failed', impactTime: NaN, energyDrift, nodalRate: NaN };
+    }
+    const finalEnergy = conserved.energy[conserved.energy.length - 1];
+    if (!(finalEnergy < 0)) {
+        return { outcome: 'escaped', impactTime: NaN, energyDrift, nodalRate: NaN };
+    }
+
+    // the node is measured in the inertial frame and is undefined for equatorial orbits
+    const inertial = params.frame === 'rotating'
+        ? toInertialTrajectory(result.times, result.positions, result.velocities, params.spinRate)
+        : { positions: result.positions, velocities: result.velocities };
+    const Omega = elementSeries(inertial.positions, inertial.velocities, GM).map(el => el.equatorial ? NaN : el.Omega);
+    return { outcome: 'bound', impactTime: NaN, energyDrift, nodalRate: fitSecularRate(result.times, Omega) };
+}
+
+export function runSweepTask(task: SweepTask): SweepCell {
+    return sweepCell(task.params, runSimulation(task.params));
+}
+
+// Rows of x, y and the cell metrics; y is left empty for a one-axis sweep.
+export function sweepToCsv(settings: SweepSettings, cells: (SweepCell | null)[]): string {
+    const xs = sweepValues(settings.x);
+    const ys = settings.y ? sweepValues(settings.y) : [NaN];
+    const lines = [
+        `# settings: ${JSON.stringify(settings)}`,
+        `${settings.x.parameter},${settings.y?.parameter ?? ""},outcome,impactTime,energyDrift,nodalRate`
+    ];
+    ys.forEach((y, iy) => xs.forEach((x, ix) => {
+        const cell = cells[iy * xs.length + ix];
+        if (!cell) return;
+        lines.push([x, settings.y ? y : "", cell.outcome, cell.impactTime, cell.energyDrift, cell.nodalRate].join(","));
+    }));
+    return lines.join("\n") + "\n";
+}
+
+export function sweepToJson(params: SimulationParams, settings: SweepSettings, cells: (SweepCell | null)[]): string {
+    return JSON.stringify({
+        format: SWEEP_FILE_FORMAT,
+        params,
+        settings,
+        x: sweepValues(settings.x),
+        y: settings.y ? sweepValues(settings.y) : null,
+        // JSON has no NaN, so metrics that do not apply become null
+        cells
+    }, null, 2);
+}
@@ -0,0 +1,21 @@
+import { runSweepTask } from "./sweep";
+import type { SweepCell, SweepWorkerRequest, SweepWorkerResponse } from "./types";
+
+// Runs its share of a sweep's grid cells and posts each one as it finishes;
+// cancelled by terminating the worker.
+const post = (message: SweepWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<SweepWorkerRequest>) => {
+    const { id, tasks } = event.data;
+    for (const task of tasks) {
+        // one orbit that throws should not stop the rest of the grid
+        let cell: SweepCell;
+        try {
+            cell = runSweepTask(task);
+        } catch (error) {
+            console.error("Error in sweep cell:", error);
+            cell = { outcome: 'failed', impactTime: NaN, energyDrift: NaN, nodalRate: NaN };
+        }
+        post({ type: 'cell', id, index: task.index, cell });
+    }
+};
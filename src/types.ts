@@ -9,3 +9,323 @@ export const Vec3 = {
     return { x, y, z };
   }
 };
+
+export type IntegratorMethod = 'rk2' | 'rk4' | 'rk45' | 'leapfrog' | 'yoshida';
+
+export interface IntegratorOptions {
+  method: IntegratorMethod;
+  relTol: number; // only used by the adaptive rk45
+  absTol: number;
+}
+
+// per-step conserved quantities, per unit mass of the orbiting body, always
+// measured in the inertial frame
+export interface ConservedSeries {
+  t: number[];
+  energy: number[];
+  Lx: number[];
+  Ly: number[];
+  Lz: number[];
+  L: number[];
+  jacobi: number[]; // E - Ω L_z, conserved around a spinning body; equal to E without spin
+  // energy taken out by drag and thrust since t = 0, negative where thrust adds it; measured against the
+  // co-rotating atmosphere, so C_J + dissipated stays at its initial value, and E + dissipated without spin
+  dissipated: number[];
+}
+
+// osculating Keplerian elements, angles in radians
+export interface OrbitalElements {
+  a: number; // semi-major axis, negative for unbound orbits
+  e: number;
+  i: number;
+  Omega: number; // longitude of the ascending node
+  omega: number; // argument of periapsis
+  M: number; // mean anomaly
+  nu: number; // true anomaly
+  equatorial: boolean; // Ω undefined
+  circular: boolean; // ω undefined
+}
+
+export interface SimulationParams {
+  attractorSize: number;
+  finalTime: number; // negative to integrate backward from the initial state
+  timeStep: number; // step of the fixed-step integrators and output spacing of every run, > 0
+  initialPosition: Vec3;
+  initialVelocity: Vec3;
+  integrator: IntegratorOptions;
+  zonal: number[]; // J2, J3, ... in units of the attractor size
+  body: string; // central body that sets the physical units, see units.ts
+  tesseral: Tesseral;
+  spinRate: number; // rotation rate of the attractor about z, rad per time unit
+  frame: ReferenceFrame; // frame the orbit is integrated and shown in
+  forceModel: ForceModel;
+  flattening: number; // f of the 'spheroid' model, polar radius = attractorSize (1 - f)
+  perturbers: Perturber[];
+  speedOfLight: number | null; // c in simulation units for the 1PN correction, null for Newtonian gravity
+  drag: Drag | null; // null for no atmosphere
+  thrust: Thrust | null;
+}
+
+// 'zonal' is the multipole expansion truncated at the given J_n; 'ring' and
+// 'spheroid' are the exact potentials of a thin uniform ring of radius
+// attractorSize and of a homogeneous oblate spheroid of that equatorial radius
+export type ForceModel = 'zonal' | 'ring' | 'spheroid';
+
+// degree-2, order-2 tesseral coefficients of a triaxial attractor, unnormalised
+export interface Tesseral {
+  C22: number;
+  S22: number;
+}
+
+// An extra point mass that pulls on the orbiting body, e.g. a moon or a distant
+// companion. Its state is relative to the attractor, in the inertial frame at t = 0.
+export interface Perturber {
+  name: string;
+  mass: number; // in units of the attractor's mass
+  position: Vec3;
+  velocity: Vec3;
+  motion: PerturberMotion;
+}
+
+// 'kepler' follows the two-body orbit through the initial state, circular or not;
+// 'integrated' moves under the attractor's full field and the other perturbers
+export type PerturberMotion = 'kepler' | 'integrated';
+
+// An exponential atmosphere above the attractor's surface, ρ = ρ₀ exp(-(r - R) / H),
+// turning with it at the spin rate. Drag decelerates the body by ½ ρ |v| v / β
+// relative to the air, so only ρ₀ / β matters and the mass unit is free.
+export interface Drag {
+  density: number; // ρ₀ at r = attractorSize
+  scaleHeight: number; // H, > 0
+  ballisticCoefficient: number; // β = m / (C_D A), > 0
+}
+
+// A constant acceleration on the body, negative to point the other way.
+export interface Thrust {
+  acceleration: number;
+  direction: ThrustDirection;
+}
+
+// 'velocity' along the inertial velocity, 'radial' away from the attractor,
+// 'normal' along the orbit normal r × v
+export type ThrustDirection = 'velocity' | 'radial' | 'normal';
+
+// a perturber's path at a run's output times, in the frame of the run
+export interface PerturberTrack {
+  name: string;
+  positions: Vec3[];
+  velocities: Vec3[];
+}
+
+// 'rotating' co-rotates with the attractor; the frames coincide at t = 0, where
+// the initial conditions are given in the inertial frame
+export type ReferenceFrame = 'inertial' | 'rotating';
+
+// camera placement for the 3-D view, in Plotly scene coordinates
+export interface CameraView {
+  eye: Vec3;
+  center?: Vec3;
+  up?: Vec3;
+}
+
+// a named scenario in the preset library
+export interface Preset {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  params: SimulationParams;
+  camera?: CameraView;
+}
+
+// why an integration stopped; times are in simulation units
+export type TerminationStatus =
+  | { kind: 'completed' }
+  | { kind: 'collision'; time: number }
+  | { kind: 'invalid-input'; message: string }
+  | { kind: 'blow-up'; time: number; message: string }
+  | { kind: 'error'; message: string };
+
+export type OrbitEventKind = 'impact' | 'periapsis' | 'apoapsis' | 'ascending-node' | 'descending-node';
+
+export interface OrbitEvent {
+  kind: OrbitEventKind;
+  time: number;
+  position: Vec3;
+  velocity: Vec3;
+}
+
+export interface OrbitResult {
+  times: number[];
+  positions: Vec3[];
+  velocities: Vec3[];
+  energy: number; // total energy per unit mass at t = 0, NaN if it could not be computed
+  conserved: ConservedSeries;
+  events: OrbitEvent[]; // in the order the trajectory passes them
+  perturbers: PerturberTrack[];
+  status: TerminationStatus;
+}
+
+// messages between the app and the orbit worker; a run is followed by its
+// accuracy check, which can also be asked for on its own for a finished run
+export type OrbitWorkerRequest =
+  | { type: 'run'; id: number; params: SimulationParams }
+  | { type: 'check'; id: number; params: SimulationParams; result: OrbitResult };
+
+export type OrbitWorkerResponse =
+  | { type: 'progress'; id: number; fraction: number }
+  | { type: 'result'; id: number; result: OrbitResult }
+  | { type: 'accuracy-progress'; id: number; fraction: number }
+  | { type: 'accuracy'; id: number; accuracy: AccuracyReport }
+  | { type: 'error'; id: number; message: string };
+
+// Poincaré surface of section through z = 0, crossed upwards (ascending) or downwards
+export type SectionDirection = 'ascending' | 'descending';
+
+export interface SectionSettings {
+  energy: number; // per unit mass, shared by every orbit on the section
+  Lz: number;
+  orbits: number; // number of starting points spread along the allowed ρ range
+  finalTime: number; // integration time per orbit
+  direction: SectionDirection;
+}
+
+// cylindrical radius and radial velocity at a crossing
+export interface SectionPoint {
+  rho: number;
+  vRho: number;
+}
+
+export interface SectionOrbit {
+  points: SectionPoint[]; // the first one is the starting point
+  status: TerminationStatus;
+}
+
+export type SectionWorkerRequest = { type: 'section'; id: number; params: SimulationParams; settings: SectionSettings };
+
+export type SectionWorkerResponse =
+  | { type: 'progress'; id: number; fraction: number }
+  | { type: 'result'; id: number; orbits: SectionOrbit[] }
+  | { type: 'error'; id: number; message: string };
+
+// one orbit in the list of runs drawn together
+export interface OrbitRun {
+  id: number;
+  name: string;
+  color: string;
+  visible: boolean;
+  params: SimulationParams;
+}
+
+// how a run is copied: as it is, without its multipole terms, or with an exact
+// force model replaced by its quadrupole
+export type DuplicateKind = 'copy' | 'point-attractor' | 'quadrupole';
+
+// fields a parameter sweep can vary; speed and inclination act on the initial velocity
+export type SweepParameter = 'attractorSize' | 'x0' | 'z0' | 'speed' | 'inclination' | 'J2' | 'finalTime';
+
+export interface SweepAxis {
+  parameter: SweepParameter;
+  min: number;
+  max: number;
+  steps: number;
+}
+
+// a second axis of null sweeps along a line
+export interface SweepSettings {
+  x: SweepAxis;
+  y: SweepAxis | null;
+}
+
+export type SweepOutcome = 'bound' | 'escaped' | 'collided' | 'failed';
+
+// what one grid cell's orbit did; NaN where a metric does not apply
+export interface SweepCell {
+  outcome: SweepOutcome;
+  impactTime: number;
+  energyDrift: number; // largest |E - E0| / |E0| over the run
+  nodalRate: number; // secular dΩ/dt in rad per time unit
+}
+
+// one orbit of the sweep, index = iy * nx + ix
+export interface SweepTask {
+  index: number;
+  params: SimulationParams;
+}
+
+export type SweepWorkerRequest = { type: 'sweep'; id: number; tasks: SweepTask[] };
+
+export type SweepWorkerResponse = { type: 'cell'; id: number; index: number; cell: SweepCell };
+
+// the outcome of a run in a form that is easy to diff between versions
+export interface RunSummary {
+  status: TerminationStatus;
+  steps: number;
+  endTime: number;
+  initialEnergy: number;
+  // largest relative change over the run; L_z and the Jacobi constant are only conserved around an axisymmetric or steadily
+  // spinning attractor, and the Jacobi constant has the energy taken out by drag and thrust added back
+  drift: { energy: number; Lz: number; jacobi: number };
+  events: { kind: OrbitEventKind; time: number }[];
+}
+
+// How far a run is from the true orbit. Monopole runs are checked against the
+// analytic Kepler solution; others against the same run with a refined step.
+export interface AccuracyReport {
+  reference: 'kepler' | 'refined';
+  t: number[];
+  positionError: number[]; // |Δr| / r at each output time
+  energyError: number[]; // (E - E0) / |E0|, the Jacobi constant around a spinning attractor, with the dissipated energy added back
+  periodError: number; // relative error of the mean periapsis-to-periapsis time, NaN if not measured
+}
+
+// one integrator's errors in the monopole limit of a run
+export interface IntegratorComparison {
+  method: IntegratorMethod;
+  report: AccuracyReport;
+}
+
+// checks of a run's parameters that integrate it several times, computed in a
+// worker of their own
+export type AnalysisRequest =
+  | { kind: 'compare'; params: SimulationParams }
+  | { kind: 'round-trip'; params: SimulationParams }
+  | { kind: 'precession'; params: SimulationParams; c: number };
+
+export type AnalysisKind = AnalysisRequest['kind'];
+
+export interface AnalysisResults {
+  compare: IntegratorComparison[];
+  'round-trip': RoundTripReport;
+  precession: PrecessionBudget;
+}
+
+export type AnalysisWorkerRequest = { type: 'analysis'; id: number; request: AnalysisRequest };
+
+export type AnalysisWorkerResponse =
+  | { type: 'progress'; id: number; fraction: number }
+  | { type: 'result'; id: number; result: AnalysisResults[AnalysisKind] }
+  | { type: 'error'; id: number; message: string };
+
+// a secular rate in rad per time unit, fitted from a run and from first-order
+// theory; NaN where the orbit is not bound or the theory does not apply
+export interface SecularRate {
+  measured: number;
+  theory: number;
+}
+
+// Apsidal precession of the same initial conditions under the multipole field
+// and the 1PN correction, each alone and together.
+export interface PrecessionBudget {
+  multipole: SecularRate;
+  relativity: SecularRate;
+  combined: SecularRate;
+}
+
+// Integrating forward and then back from the end state should return to the
+// start; what is left over measures the integrator's error and its reversibility.
+export interface RoundTripReport {
+  status: TerminationStatus; // the first leg that did not complete, or completed
+  positionError: number; // |r_back - r0| / |r0|
+  velocityError: number; // |v_back - v0| / |v0|
+}
@@ -0,0 +1,119 @@
+// Physical units for the simulation.
+//
+// The integrator always works with GM = 4π² in its own length and time units, so
+// that a circular orbit of radius 1 has period 1. For the thesis scenarios those
+// units are the AU and the year. For a real central body the length unit is its
+// equatorial radius, which makes attractorSize = 1 and lets the measured J_n be
+// used as they are, and the time unit follows from GM.
+
+export interface CentralBody {
+    id: string;
+    name: string;
+    GM: number; // m^3 / s^2
+    radius: number; // equatorial radius, m
+    zonal: number[]; // measured J2, J3, J4, unnormalised
+}
+
+// size of one simulation length and time unit
+export interface CodeUnits {
+    length: number; // m
+    time: number; // s
+}
+
+export const AU = 1.495978707e11; // m
+export const JULIAN_YEAR = 365.25 * 86400; // s
+export const DAY = 86400; // s
+export const SPEED_OF_LIGHT = 299792458; // m / s
+
+export const THESIS_BODY_ID = 'thesis';
+
+export const BODIES: CentralBody[] = [
+    {
+        id: 'earth',
+        name: 'Earth',
+        GM: 3.986004418e14,
+        radius: 6378137,
+        zonal: [1.08262668e-3, -2.53265649e-6, -1.61962159e-6]
+    },
+    {
+        id: 'jupiter',
+        name: 'Jupiter',
+        GM: 1.26686534e17,
+        radius: 71492e3,
+        zonal: [14696.572e-6, -0.042e-6, -586.609e-6]
+    },
+    {
+        id: 'saturn',
+        name: 'Saturn',
+        GM: 3.7931187e16,
+        radius: 60268e3,
+        zonal: [16290.573e-6, 0.059e-6, -935.314e-6]
+    }
+];
+
+export const findBody = (id: string): CentralBody | undefined => BODIES.find(body => body.id === id);
+
+export function codeUnits(bodyId: string): CodeUnits {
+    const body = findBody(bodyId);
+    if (!body) return { length: AU, time: JULIAN_YEAR };
+    return { length: body.radius, time: 2 * Math.PI * Math.sqrt(body.radius ** 3 / body.GM) };
+}
+
+// c in simulation units, about 63 000 for the thesis scenarios
+export const speedOfLight = (units: CodeUnits): number => SPEED_OF_LIGHT * units.time / units.length;
+
+export type Quantity = 'length' | 'time' | 'velocity' | 'energy' | 'angularMomentum';
+
+// powers of length and time
+const DIMENSIONS: Record<Quantity, [number, number]> = {
+    length: [1, 0],
+    time: [0, 1],
+    velocity: [1, -1],
+    energy: [2, -2], // per unit mass
+    angularMomentum: [2, -1] // per unit mass
+};
+
+export type UnitSystem = 'simulation' | 'SI' | 'astronomical';
+
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+    simulation: 'Simulation units',
+    SI: 'SI (m, s)',
+    astronomical: 'Astronomical (AU, year)'
+};
+
+const UNIT_LABELS: Record<UnitSystem, Record<Quantity, string>> = {
+    simulation: { length: '', time: '', velocity: '', energy: '', angularMomentum: '' },
+    SI: { length: 'm', time: 's', velocity: 'm/s', energy: 'J/kg', angularMomentum: 'm²/s' },
+    astronomical: { length: 'AU', time: 'yr', velocity: 'AU/yr', energy: 'AU²/yr²', angularMomentum: 'AU²/yr' }
+};
+
+const SYSTEM_UNITS: Record<Exclude<UnitSystem, 'simulation'>, CodeUnits> = {
+    SI: { length: 1, time: 1 },
+    astronomical: { length: AU, time: JULIAN_YEAR }
+};
+
+// converts a value in simulation units into the given system
+export function toUnits(value: number, quantity: Quantity, units: CodeUnits, system: UnitSystem): number {
+    if (system === 'simulation') return value;
+    const [l, t] = DIMENSIONS[quantity];
+    const target = SYSTEM_UNITS[system];
+    return value * (units.length / target.length) ** l * (units.time / target.time) ** t;
+}
+
+export const unitLabel = (quantity: Quantity, system: UnitSystem): string => UNIT_LABELS[system][quantity];
+
+// a converted value without its unit, in exponent form when it is far from 1
+export function formatValue(value: number, quantity: Quantity, units: CodeUnits, system: UnitSystem, digits: number = 4): string {
+    if (!Number.isFinite(value)) return '—';
+    const converted = toUnits(value, quantity, units, system);
+    const magnitude = Math.abs(converted);
+    return magnitude !== 0 && (magnitude >= 1e5 || magnitude < 1e-3)
+        ? converted.toExponential(digits)
+        : converted.toFixed(digits);
+}
+
+export function formatQuantity(value: number, quantity: Quantity, units: CodeUnits, system: UnitSystem, digits: number = 4): string {
+    const text = formatValue(value, quantity, units, system, digits);
+    const label = unitLabel(quantity, system);
+    return label && Number.isFinite(value) ? `${text} ${label}` : text;
+}
@@ -0,0 +1,54 @@
+import { useEffect, useRef, useState } from 'react';
+import type { AnalysisKind, AnalysisRequest, AnalysisResults, AnalysisWorkerRequest, AnalysisWorkerResponse, SimulationParams } from './types';
+
+const createWorker = () => new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+
+// Runs one kind of analysis of params in its own Web Worker, with progress and
+// cancellation. A result only describes the params it was computed for, so it
+// is dropped, and a computation still going is cancelled, as soon as they change.
+export function useAnalysis<K extends AnalysisKind>(params: SimulationParams) {
+  const [done, setDone] = useState<{ params: SimulationParams; result: AnalysisResults[K] | null; error: string | null } | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const workerRef = useRef<Worker | null>(null);
+  const runIdRef = useRef(0);
+
+  const stop = () => {
+    runIdRef.current++;
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  useEffect(() => () => {
+    runIdRef.current++;
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  }, [params]);
+
+  const run = (request: Extract<AnalysisRequest, { kind: K }>) => {
+    stop();
+    const id = runIdRef.current;
+    const worker = createWorker();
+    workerRef.current = worker;
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+      const message = event.data;
+      if (message.id !== runIdRef.current) return;
+      if (message.type === 'progress') {
+        setProgress(message.fraction);
+        return;
+      }
+      stop();
+      setDone(message.type === 'result'
+        ? { params: request.params, result: message.result as AnalysisResults[K], error: null }
+        : { params: request.params, result: null, error: message.message });
+    };
+    const message: AnalysisWorkerRequest = { type: 'analysis', id, request };
+    setProgress(0);
+    worker.postMessage(message);
+  };
+
+  const current = done?.params === params ? done : null;
+  return { result: current?.result ?? null, error: current?.error ?? null, progress, run, cancel: stop };
+}
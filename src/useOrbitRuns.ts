@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from 'react';
+import { runSimulation } from './physics';
+import { createOrbitWorkerClient } from './orbitClient';
+import type { OrbitWorkerClient } from './orbitClient';
+import type { AccuracyReport, OrbitResult, OrbitRun, SimulationParams } from './types';
+
+const without = <T,>(record: Record<number, T>, id: number): Record<number, T> => {
+  const next = { ...record };
+  delete next[id];
+  return next;
+};
+
+// Computes every run and its accuracy check in its own Web Worker. A run keeps
+// its last finished result while a newer one is in progress; `progress` and
+// `checking` only have entries for runs whose orbit or accuracy check is
+// currently computing.
+export function useOrbitRuns(runs: OrbitRun[]) {
+  // the first runs are computed synchronously so there is something to draw straight away; their checks go to the workers
+  const [results, setResults] = useState<Record<number, OrbitResult>>(
+    () => Object.fromEntries(runs.map(run => [run.id, runSimulation(run.params)]))
+  );
+  const [accuracy, setAccuracy] = useState<Record<number, AccuracyReport>>({});
+  const [progress, setProgress] = useState<Record<number, number>>({});
+  const [checking, setChecking] = useState<Record<number, number>>({});
+
+  const clientsRef = useRef(new Map<number, OrbitWorkerClient>());
+  const requestedRef = useRef(new Map<number, SimulationParams>(runs.map(run => [run.id, run.params])));
+  // first results that still need their accuracy check
+  const uncheckedRef = useRef(new Map<number, OrbitResult>(Object.entries(results).map(([id, result]) => [Number(id), result])));
+
+  useEffect(() => {
+    const clients = clientsRef.current;
+    return () => {
+      clients.forEach(client => client.dispose());
+      clients.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    const clients = clientsRef.current;
+    const requested = requestedRef.current;
+    const unchecked = uncheckedRef.current;
+
+    for (const run of runs) {
+      const unchanged = requested.get(run.id) === run.params;
+      // an unchecked first result is sent again whenever its worker was replaced
+      const first = unchanged ? unchecked.get(run.id) : undefined;
+      if (unchanged && (!first || clients.has(run.id))) continue;
+      requested.set(run.id, run.params);
+      if (!unchanged) unchecked.delete(run.id);
+
+      let client = clients.get(run.id);
+      if (!client) {
+        client = createOrbitWorkerClient({
+          onProgress: fraction => setProgress(prev => ({ ...prev, [run.id]: fraction })),
+          onDone: result => {
+            setProgress(prev => without(prev, run.id));
+            if (!result) return;
+            setResults(prev => ({ ...prev, [run.id]: result }));
+            // the old report does not describe the new orbit
+            setAccuracy(prev => without(prev, run.id));
+          },
+          onCheckProgress: fraction => setChecking(prev => ({ ...prev, [run.id]: fraction })),
+          onChecked: report => {
+            setChecking(prev => without(prev, run.id));
+            if (!report) return;
+            uncheckedRef.current.delete(run.id);
+            setAccuracy(prev => ({ ...prev, [run.id]: report }));
+          },
+        });
+        clients.set(run.id, client);
+      }
+      if (first) {
+        client.check(run.params, first);
+      } else {
+        client.run(run.params);
+      }
+    }
+
+    // forget runs that were removed
+    const ids = new Set(runs.map(run => run.id));
+    for (const id of [...requested.keys()]) {
+      if (ids.has(id)) continue;
+      clients.get(id)?.dispose();
+      clients.delete(id);
+      requested.delete(id);
+      unchecked.delete(id);
+      setResults(prev => without(prev, id));
+      setAccuracy(prev => without(prev, id));
+      setProgress(prev => without(prev, id));
+      setChecking(prev => without(prev, id));
+    }
+  }, [runs]);
+
+  const cancel = (id: number) => clientsRef.current.get(id)?.cancel();
+
+  return { results, accuracy, progress, checking, cancel };
+}
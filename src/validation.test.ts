@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import type { IntegratorMethod, SimulationParams } from './types';
+import { AXISYMMETRIC, DEFAULT_TIME_STEP, GM, runSimulation } from './physics';
+import { defaultIntegratorOptions } from './integrators';
+import { THESIS_ZONAL } from './harmonics';
+import { keplerPeriod } from './kepler';
+import { accuracyReport, compareIntegrators, keplerAccuracy, measuredPeriod, refinedAccuracy, worstErrors } from './validation';
+
+// an inclined ellipse around a point attractor, about six and a half orbits
+const monopole: SimulationParams = {
+    attractorSize: 0.00001,
+    finalTime: 100,
+    timeStep: DEFAULT_TIME_STEP,
+    initialPosition: { x: 5, y: 0, z: 0 },
+    initialVelocity: { x: 0, y: 3, z: 0.6 },
+    integrator: defaultIntegratorOptions,
+    zonal: [],
+    body: 'thesis',
+    ...AXISYMMETRIC
+};
+
+// the quadrupole-bound preset, shortened
+const quadrupole: SimulationParams = {
+    ...monopole,
+    attractorSize: 1,
+    zonal: THESIS_ZONAL,
+    initialPosition: { x: 3, y: 1, z: 0 },
+    initialVelocity: { x: 0, y: 4, z: 2 },
+    finalTime: 60,
+    integrator: { ...defaultIntegratorOptions, method: 'rk4' }
+};
+
+const withMethod = (params: SimulationParams, method: IntegratorMethod): SimulationParams =>
+    ({ ...params, integrator: { ...params.integrator, method } });
+
+// within a factor of two either way, loose enough for rounding across platforms
+const expectAbout = (actual: number, expected: number) => {
+    expect(actual).toBeGreaterThan(expected / 2);
+    expect(actual).toBeLessThan(expected * 2);
+};
+
+describe('keplerAccuracy', () => {
+    // largest |Δr| / r and |ΔE / E₀| over the run
+    const expected: Record<IntegratorMethod, { position: number; energy: number }> = {
+        rk2: { position: 5.5e-2, energy: 6.7e-4 },
+        rk4: { position: 2.0e-5, energy: 4.2e-7 },
+        rk45: { position: 2.9e-7, energy: 7.3e-9 },
+        leapfrog: { position: 5.1e-2, energy: 4.0e-4 },
+        yoshida: { position: 1.8e-4, energy: 1.1e-6 }
+    };
+
+    it.each(Object.keys(expected) as IntegratorMethod[])('pins the errors of %s', method => {
+        const params = withMethod(monopole, method);
+        const worst = worstErrors(keplerAccuracy(params, runSimulation(params)));
+        expectAbout(worst.position, expected[method].position);
+        expectAbout(worst.energy, expected[method].energy);
+    });
+
+    it('is what accuracyReport uses for a point attractor', () => {
+        const result = runSimulation(monopole);
+        expect(accuracyReport(monopole, result).reference).toBe('kepler');
+    });
+
+    it('matches compareIntegrators', () => {
+        // the comparison drops the multipoles, so it sees the monopole orbit
+        const comparison = compareIntegrators(withMethod({ ...monopole, zonal: THESIS_ZONAL }, 'rk2'));
+        expect(comparison.map(row => row.method)).toEqual(['rk2', 'rk4', 'rk45', 'leapfrog', 'yoshida']);
+        for (const { method, report } of comparison) {
+            expect(report.reference).toBe('kepler');
+            const worst = worstErrors(report);
+            expectAbout(worst.position, expected[method].position);
+            expectAbout(worst.energy, expected[method].energy);
+        }
+    });
+
+    it('converges at the order of each fixed-step method', () => {
+        const orders: [IntegratorMethod, number][] = [['rk2', 2], ['rk4', 4], ['yoshida', 4]];
+        for (const [method, order] of orders) {
+            // short enough for the error to stay in the asymptotic regime
+            const params = withMethod({ ...monopole, finalTime: 10 }, method);
+            const ratio = worstErrors(keplerAccuracy(params, runSimulation(params))).position
+                / worstErrors(keplerAccuracy(params, runSimulation({ ...params, timeStep: params.timeStep / 2 }))).position;
+            expectAbout(ratio, 2 ** order);
+        }
+    });
+});
+
+describe('measuredPeriod', () => {
+    it('agrees with Kepler\'s third law', () => {
+        const period = keplerPeriod(monopole.initialPosition, monopole.initialVelocity, GM);
+        expect(period).toBeCloseTo(15.20844, 4);
+        const params = withMethod(monopole, 'rk45');
+        expect(Math.abs(measuredPeriod(runSimulation(params)) - period) / period).toBeLessThan(1e-7);
+    });
+
+    it('is NaN with fewer than two periapses', () => {
+        expect(measuredPeriod(runSimulation({ ...monopole, finalTime: 10 }))).toBeNaN();
+    });
+});
+
+describe('refinedAccuracy', () => {
+    const result = runSimulation(quadrupole);
+    const report = refinedAccuracy(quadrupole, result);
+
+    it('is what accuracyReport uses with multipoles', () => {
+        expect(report.reference).toBe('refined');
+        expect(accuracyReport(quadrupole, result).reference).toBe('refined');
+    });
+
+    it('estimates the true error of a quadrupole run', () => {
+        // against a run with a sixteenth of the step, close enough to exact for RK4
+        const truth = runSimulation({ ...quadrupole, timeStep: quadrupole.timeStep / 16 });
+        const trueError = result.positions.reduce((worst, p, i) => {
+            const q = truth.positions[i * 16];
+            return Math.max(worst, Math.hypot(p.x - q.x, p.y - q.y, p.z - q.z) / Math.hypot(q.x, q.y, q.z));
+        }, 0);
+        const estimate = worstErrors(report).position;
+        expect(Math.abs(estimate - trueError) / trueError).toBeLessThan(0.1);
+        expectAbout(estimate, 2.6e-3);
+    });
+
+    it('pins the energy drift and the period', () => {
+        expectAbout(worstErrors(report).energy, 4.5e-5);
+        expectAbout(Math.abs(report.periodError), 3.4e-5);
+    });
+});
@@ -0,0 +1,156 @@
+import type { Vec3, SimulationParams, OrbitResult, AccuracyReport, IntegratorComparison, RoundTripReport } from "./types";
+import { keplerPeriod, keplerState } from "./kepler";
+import { GM, runSimulation, isTriaxial, rotateZ, toInertialState, toInertialTrajectory } from "./physics";
+import { INTEGRATOR_METHODS, INTEGRATOR_ORDERS } from "./integrators";
+import { maxAbs } from "./diagnostics";
+
+// Accuracy checks for the integrators. In the monopole limit the orbit is a
+// conic that can be propagated exactly from Kepler's equation; with multipoles
+// the error is estimated by running again with half the step (or, for the
+// adaptive rk45, a tolerance a hundred times tighter) and comparing.
+
+const dot = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
+const norm = (vec: Vec3) => Math.sqrt(dot(vec, vec));
+
+// mean time between successive periapsis passages, NaN with fewer than two
+export function measuredPeriod(result: OrbitResult): number {
+    const times = result.events.filter(event => event.kind === 'periapsis').map(event => event.time);
+    return times.length >= 2 ? Math.abs(times[times.length - 1] - times[0]) / (times.length - 1) : NaN;
+}
+
+// True when the zonal and tesseral terms are too small to matter, e.g. for a point attractor alone in Newtonian gravity and in vacuum.
+export function isMonopole(params: SimulationParams): boolean {
+    const r0 = norm(params.initialPosition);
+    return params.forceModel === 'zonal'
+        && !isTriaxial(params.tesseral)
+        && params.perturbers.length === 0
+        && params.speedOfLight === null
+        && params.drag === null
+        && params.thrust === null
+        && params.zonal.every((J, k) => Math.abs(J) * (params.attractorSize / r0) ** (k + 2) < 1e-10);
+}
+
+// drag and thrust change the Jacobi constant by exactly the energy they take out
+const conservedDrift = (result: OrbitResult): number[] => {
+    const series = result.conserved.jacobi.map((C, i) => C + result.conserved.dissipated[i]);
+    const scale = Math.abs(series[0]) || 1;
+    return series.map(value => (value - series[0]) / scale);
+};
+
+// Errors of a monopole run against the analytic orbit through the same initial state.
+export function keplerAccuracy(params: SimulationParams, result: OrbitResult): AccuracyReport {
+    const { initialPosition: pos, initialVelocity: vel } = params;
+    // the analytic orbit is inertial, so a rotating-frame run is taken back first
+    const positions = params.frame === 'rotating'
+        ? toInertialTrajectory(result.times, result.positions, result.velocities, params.spinRate).positions
+        : result.positions;
+    const positionError = result.times.map((t, i) => {
+        const exact = keplerState(pos, vel, t, GM).position;
+        const p = positions[i];
+        return Math.hypot(p.x - exact.x, p.y - exact.y, p.z - exact.z) / norm(exact);
+    });
+    const period = keplerPeriod(pos, vel, GM);
+    return {
+        reference: 'kepler',
+        t: result.times,
+        positionError,
+        energyError: conservedDrift(result),
+        periodError: (measuredPeriod(result) - period) / period
+    };
+}
+
+// Errors of any run estimated against a refined copy. Halving the step of an
+// order-p method cuts its error by 2^p, so the difference between the two runs
+// is (1 - 2^-p) of the coarse run's error (Richardson extrapolation).
+export function refinedAccuracy(params: SimulationParams, result: OrbitResult, onProgress?: (fraction: number) => void): AccuracyReport {
+    const { method, relTol, absTol } = params.integrator;
+    const adaptive = method === 'rk45';
+    const refined = runSimulation(adaptive
+        ? { ...params, integrator: { method, relTol: relTol / 100, absTol: absTol / 100 } }
+        : { ...params, timeStep: params.timeStep / 2 }, onProgress);
+    // the refined fixed-step run has two output points for every one of the original
+    const stride = adaptive ? 1 : 2;
+    const factor = adaptive ? 1 : 1 / (1 - 2 ** -INTEGRATOR_ORDERS[method]);
+
+    const n = Math.min(result.times.length, Math.floor((refined.times.length - 1) / stride) + 1);
+    const positionError = result.positions.slice(0, n).map((p, i) => {
+        const q = refined.positions[i * stride];
+        return factor * Math.hypot(p.x - q.x, p.y - q.y, p.z - q.z) / norm(q);
+    });
+    const period = measuredPeriod(refined);
+    return {
+        reference: 'refined',
+        t: result.times.slice(0, n),
+        positionError,
+        energyError: conservedDrift(result),
+        periodError: (measuredPeriod(result) - period) / period
+    };
+}
+
+// only the refined check integrates again, so only it reports progress
+export function accuracyReport(params: SimulationParams, result: OrbitResult, onProgress?: (fraction: number) => void): AccuracyReport {
+    return isMonopole(params) ? keplerAccuracy(params, result) : refinedAccuracy(params, result, onProgress);
+}
+
+// worst errors over a run, NaN for an empty one
+export function worstErrors(report: AccuracyReport): { position: number, energy: number } {
+    const worst = (values: number[]) => values.length > 0 ? maxAbs(values) : NaN;
+    return { position: worst(report.positionError), energy: worst(report.energyError) };
+}
+
+// Every integrator on the monopole version of params, against the Kepler solution.
+export function compareIntegrators(params: SimulationParams, onProgress?: (fraction: number) => void): IntegratorComparison[] {
+    const monopole: SimulationParams = { ...params, zonal: [], tesseral: { C22: 0, S22: 0 }, forceModel: 'zonal', perturbers: [], speedOfLight: null, drag: null, thrust: null };
+    return INTEGRATOR_METHODS.map((method, k) => {
+        const run = { ...monopole, integrator: { ...params.integrator, method } };
+        const result = runSimulation(run, onProgress && (fraction => onProgress((k + fraction) / INTEGRATOR_METHODS.length)));
+        return { method, report: keplerAccuracy(run, result) };
+    });
+}
+
+// A state at time t of a run as initial conditions for a new one. Runs start
+// with the attractor's axes on the inertial ones, so an inertial state is turned
+// back by the angle the attractor has spun through, and a rotating-frame one only
+// needs the frame velocity Ω × r added, which is how initial velocities are read.
+function restartState(params: SimulationParams, pos: Vec3, vel: Vec3, t: number): { pos: Vec3, vel: Vec3 } {
+    if (params.frame === 'rotating') return toInertialState(pos, vel, 0, params.spinRate);
+    const angle = -params.spinRate * t;
+    return { pos: rotateZ(pos, angle), vel: rotateZ(vel, angle) };
+}
+
+// params with the body and the perturbers where a run of it ended
+function restartParams(params: SimulationParams, result: OrbitResult): SimulationParams {
+    const last = result.times.length - 1;
+    const t = result.times[last];
+    const body = restartState(params, result.positions[last], result.velocities[last], t);
+    return {
+        ...params,
+        initialPosition: body.pos,
+        initialVelocity: body.vel,
+        perturbers: params.perturbers.map((perturber, k) => {
+            const track = result.perturbers[k];
+            const state = restartState(params, track.positions[last], track.velocities[last], t);
+            return { ...perturber, position: state.pos, velocity: state.vel };
+        })
+    };
+}
+
+// Runs params forward to finalTime, then back to the start from where it ended.
+export function roundTrip(params: SimulationParams, onProgress?: (fraction: number) => void): RoundTripReport {
+    const forward = runSimulation(params, onProgress && (fraction => onProgress(fraction / 2)));
+    if (forward.status.kind !== 'completed') {
+        return { status: forward.status, positionError: NaN, velocityError: NaN };
+    }
+    const back = { ...restartParams(params, forward), finalTime: -params.finalTime };
+    const backward = runSimulation(back, onProgress && (fraction => onProgress((1 + fraction) / 2)));
+    if (backward.status.kind !== 'completed') {
+        return { status: backward.status, positionError: NaN, velocityError: NaN };
+    }
+    const { initialPosition: pos, initialVelocity: vel } = restartParams(back, backward);
+    const { initialPosition: r0, initialVelocity: v0 } = params;
+    return {
+        status: backward.status,
+        positionError: Math.hypot(pos.x - r0.x, pos.y - r0.y, pos.z - r0.z) / norm(r0),
+        velocityError: Math.hypot(vel.x - v0.x, vel.y - v0.y, vel.z - v0.z) / norm(v0)
+    };
+}
@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+// react-plotly.js renders with the prebuilt bundle, so use the same one for image export
+declare module 'plotly.js/dist/plotly' {
+  import * as Plotly from 'plotly.js';
+  export default Plotly;
+}